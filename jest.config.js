@@ -3,6 +3,7 @@ module.exports = {
 	testEnvironment: "node",
 	roots: ["<rootDir>/src"],
 	testMatch: ["**/__tests__/**/*.ts", "**/?(*.)+(spec|test).ts"],
+	testPathIgnorePatterns: ["/node_modules/", "/__tests__/helpers/"],
 	transform: {
 		"^.+\\.ts$": "ts-jest",
 	},
@@ -0,0 +1,171 @@
+import { analyzeReviewLogs } from "../analytics";
+import { FSRS } from "../fsrs";
+import { Rating, ReviewLog, State } from "../types";
+
+describe("analyzeReviewLogs", () => {
+	const fsrs = new FSRS();
+	const DAY_MS = 1000 * 60 * 60 * 24;
+
+	// A review of a card in `state`, `elapsedDays` after its previous review.
+	const log = (
+		state: State,
+		rating: Rating,
+		elapsedDays: number,
+		review = "2024-01-10T00:00:00.000Z",
+		stability = 10,
+		difficulty = 5
+	): ReviewLog => {
+		const reviewDate = new Date(review);
+		return {
+			rating,
+			state,
+			due: reviewDate,
+			stability: state === State.New ? 0 : stability,
+			difficulty: state === State.New ? 0 : difficulty,
+			elapsedDays,
+			lastElapsedDays: 0,
+			scheduledDays: elapsedDays,
+			review: reviewDate,
+			lastReview:
+				state === State.New ? undefined : new Date(reviewDate.getTime() - elapsedDays * DAY_MS),
+		};
+	};
+
+	it("should report true retention against the request retention", () => {
+		const logs = [
+			log(State.Review, Rating.Good, 10),
+			log(State.Review, Rating.Hard, 10),
+			log(State.Review, Rating.Easy, 10),
+			log(State.Review, Rating.Again, 10),
+			log(State.Learning, Rating.Again, 0),
+		];
+
+		const result = analyzeReviewLogs(logs, fsrs);
+
+		expect(result.reviewCount).toBe(5);
+		expect(result.requestRetention).toBe(0.9);
+		expect(result.trueRetention).toEqual({ count: 4, passed: 3, rate: 0.75 });
+		expect(result.retentionGap).toBeCloseTo(-0.15, 10);
+		expect(result.lapseCount).toBe(1);
+		expect(result.lapseRate).toBeCloseTo(0.25, 10);
+	});
+
+	it("should ignore manual resets", () => {
+		const result = analyzeReviewLogs([log(State.Review, Rating.Manual, 3)], fsrs);
+
+		expect(result.reviewCount).toBe(0);
+		expect(result.trueRetention).toEqual({ count: 0, passed: 0, rate: undefined });
+		expect(result.retentionGap).toBeUndefined();
+		expect(result.lapseRate).toBeUndefined();
+	});
+
+	it("should break retention down by interval bucket and by state", () => {
+		const logs = [
+			log(State.Review, Rating.Good, 0),
+			log(State.Review, Rating.Good, 2),
+			log(State.Review, Rating.Again, 5),
+			log(State.Review, Rating.Good, 400),
+			log(State.New, Rating.Good, 0),
+			log(State.Relearning, Rating.Again, 0),
+		];
+
+		const result = analyzeReviewLogs(logs, fsrs, { intervalBuckets: [1, 7] });
+
+		expect(result.retentionByInterval).toEqual([
+			{ minDays: 0, maxDays: 1, count: 1, passed: 1, rate: 1 },
+			{ minDays: 1, maxDays: 7, count: 2, passed: 1, rate: 0.5 },
+			{ minDays: 7, maxDays: undefined, count: 1, passed: 1, rate: 1 },
+		]);
+		expect(result.retentionByState[State.New]).toEqual({ count: 1, passed: 1, rate: 1 });
+		expect(result.retentionByState[State.Learning].rate).toBeUndefined();
+		expect(result.retentionByState[State.Review]).toEqual(result.trueRetention);
+		expect(result.retentionByState[State.Relearning]).toEqual({ count: 1, passed: 0, rate: 0 });
+	});
+
+	it("should report the rating distribution", () => {
+		const logs = [
+			log(State.Review, Rating.Good, 3),
+			log(State.Review, Rating.Good, 3),
+			log(State.Review, Rating.Easy, 3),
+			log(State.Review, Rating.Again, 3),
+		];
+
+		expect(analyzeReviewLogs(logs, fsrs).ratingDistribution).toEqual([
+			{ rating: Rating.Again, count: 1, share: 0.25 },
+			{ rating: Rating.Hard, count: 0, share: 0 },
+			{ rating: Rating.Good, count: 2, share: 0.5 },
+			{ rating: Rating.Easy, count: 1, share: 0.25 },
+		]);
+	});
+
+	it("should track difficulty and stability drift per period", () => {
+		const logs = [
+			log(State.Review, Rating.Good, 5, "2024-03-05T00:00:00.000Z", 30, 6),
+			log(State.Review, Rating.Good, 5, "2024-01-05T00:00:00.000Z", 10, 4),
+			log(State.Review, Rating.Good, 5, "2024-01-06T00:00:00.000Z", 20, 6),
+			log(State.New, Rating.Good, 0, "2024-01-05T00:00:00.000Z"),
+		];
+
+		const { drift } = analyzeReviewLogs(logs, fsrs, { driftPeriodDays: 30 });
+
+		expect(drift.periods.map(({ count }) => count)).toEqual([2, 1]);
+		expect(drift.periods[0]).toMatchObject({ averageDifficulty: 5, averageStability: 15 });
+		expect(drift.periods[0].start.getTime() % (30 * DAY_MS)).toBe(0);
+		expect(drift.difficultyChange).toBeCloseTo(1, 10);
+		expect(drift.stabilityChange).toBeCloseTo(15, 10);
+	});
+
+	it("should leave drift changes undefined with a single period", () => {
+		const { drift } = analyzeReviewLogs([log(State.Review, Rating.Good, 5)], fsrs);
+
+		expect(drift.periods).toHaveLength(1);
+		expect(drift.difficultyChange).toBeUndefined();
+	});
+
+	it("should compare predicted retrievability with actual recall", () => {
+		// With stability 10 the forgetting curve predicts 90% recall after 10 days.
+		const logs = [
+			...Array.from({ length: 9 }, () => log(State.Review, Rating.Good, 10)),
+			log(State.Review, Rating.Again, 10),
+			log(State.New, Rating.Good, 0),
+		];
+
+		const { calibration, calibrationError } = analyzeReviewLogs(logs, fsrs, {
+			calibrationBins: 5,
+		});
+
+		expect(calibration.map(({ minPredicted }) => minPredicted)).toEqual([0, 0.2, 0.4, 0.6, 0.8]);
+		expect(calibration.map(({ count }) => count)).toEqual([0, 0, 0, 0, 10]);
+		expect(calibration[4].averagePredicted).toBeCloseTo(0.9, 5);
+		expect(calibration[4].actualRecall).toBe(0.9);
+		expect(calibration[0].actualRecall).toBeUndefined();
+		expect(calibrationError).toBeCloseTo(0, 5);
+	});
+
+	it("should analyze logs produced by the scheduler", () => {
+		const { reviewLogs } = fsrs.replay([
+			{ rating: Rating.Good, review: new Date("2024-01-01T00:00:00.000Z") },
+			{ rating: Rating.Good, review: new Date("2024-01-04T00:00:00.000Z") },
+			{ rating: Rating.Again, review: new Date("2024-01-20T00:00:00.000Z") },
+		]);
+
+		const result = analyzeReviewLogs(reviewLogs, fsrs);
+
+		expect(result.retentionByState[State.New].count).toBe(1);
+		expect(result.retentionByState[State.Learning].count).toBe(1);
+		expect(result.trueRetention).toEqual({ count: 1, passed: 0, rate: 0 });
+		expect(result.calibration.reduce((sum, { count }) => sum + count, 0)).toBe(2);
+	});
+
+	it("should reject invalid options", () => {
+		expect(() => analyzeReviewLogs([], fsrs, { intervalBuckets: [7, 1] })).toThrow(
+			"Invalid intervalBuckets: edges must be positive and ascending"
+		);
+		expect(() => analyzeReviewLogs([], fsrs, { calibrationBins: 0 })).toThrow(
+			"Invalid calibrationBins: 0 must be a positive integer"
+		);
+		expect(() => analyzeReviewLogs([], fsrs, { driftPeriodDays: 0 })).toThrow(
+			"Invalid driftPeriodDays: 0 must be greater than 0"
+		);
+	});
+});
@@ -0,0 +1,151 @@
+import { importAnkiRevlog, mapAnkiType } from "../ankiImport";
+import { FSRS } from "../fsrs";
+import { Rating, State } from "../types";
+
+describe("importAnkiRevlog", () => {
+	const DAY = 24 * 60 * 60 * 1000;
+	const start = Date.UTC(2023, 0, 1, 9);
+
+	// cid, id (review time), ease (button), ivl, factor, type
+	const revlog = [
+		"cid,id,ease,ivl,factor,type",
+		`200,${start},3,1,2500,0`,
+		`100,${start},1,-600,0,0`,
+		`100,${start + 10 * 60 * 1000},3,1,2500,0`,
+		`100,${start + DAY},3,3,2500,1`,
+		`100,${start + 4 * DAY},1,-600,2300,1`,
+		`100,${start + 4 * DAY + 10 * 60 * 1000},3,1,2300,2`,
+		`100,${start + 6 * DAY},4,8,2450,1`,
+	].join("\n");
+
+	it("should group reviews by card and rebuild memory state", () => {
+		const { cards, skipped } = importAnkiRevlog(revlog);
+
+		expect(skipped).toEqual([]);
+		expect(cards.map((entry) => entry.cardId)).toEqual(["100", "200"]);
+
+		const [first] = cards;
+		expect(first.reviewLogs.map((log) => log.rating)).toEqual([
+			Rating.Again,
+			Rating.Good,
+			Rating.Good,
+			Rating.Again,
+			Rating.Good,
+			Rating.Easy,
+		]);
+		expect(first.card.reps).toBe(6);
+		expect(first.card.lastReview).toEqual(new Date(start + 6 * DAY));
+		expect(first.card.state).toBe(State.Review);
+	});
+
+	it("should match replaying the same history directly", () => {
+		const fsrs = new FSRS();
+		const { cards } = importAnkiRevlog(revlog, fsrs);
+
+		const replayed = fsrs.replay([{ rating: Rating.Good, review: new Date(start) }]);
+
+		expect(cards[1].card).toEqual(replayed.card);
+	});
+
+	it("should map Anki review types onto the state before each review", () => {
+		const { cards } = importAnkiRevlog(revlog);
+
+		expect(cards[0].reviewLogs.map((log) => log.state)).toEqual([
+			State.New,
+			State.Learning,
+			State.Review,
+			State.Review,
+			State.Relearning,
+			State.Review,
+		]);
+	});
+
+	it("should sort reviews by time within each card", () => {
+		const shuffled = ["cid,id,ease,ivl,factor,type", ...revlog.split("\n").slice(1).reverse()].join(
+			"\n"
+		);
+
+		expect(importAnkiRevlog(shuffled).cards).toEqual(importAnkiRevlog(revlog).cards);
+	});
+
+	it("should accept descriptive headers and tab-separated files", () => {
+		const tsv = [
+			"card id\treview timestamp\tbutton\tinterval\tease\ttype",
+			`200\t${start}\t3\t1\t2500\t0`,
+		].join("\n");
+
+		const { cards } = importAnkiRevlog(tsv);
+
+		expect(cards).toHaveLength(1);
+		expect(cards[0].card).toEqual(importAnkiRevlog(revlog).cards[1].card);
+	});
+
+	it("should read raw revlog dumps in Anki's column order", () => {
+		// id, cid, usn, ease, ivl, lastIvl, factor, time, type
+		const raw = `${start},200,-1,3,1,0,2500,6000,0`;
+
+		expect(importAnkiRevlog(raw).cards[0].card).toEqual(importAnkiRevlog(revlog).cards[1].card);
+	});
+
+	it("should replay Forget entries as manual resets", () => {
+		const withReset = [revlog, `100,${start + 7 * DAY},0,0,0,4`].join("\n");
+		const [first] = importAnkiRevlog(withReset).cards;
+
+		expect(first.reviewLogs[6].rating).toBe(Rating.Manual);
+		expect(first.card.state).toBe(State.New);
+	});
+
+	it("should report the rows it skipped and why", () => {
+		const messy = [
+			revlog,
+			`100,${start + 7 * DAY},0,30,2450,4`,
+			`100,${start + 8 * DAY},3,0,0,3`,
+			`100,yesterday,3,1,2500,1`,
+			`100,${start + 9 * DAY},7,1,2500,1`,
+			`,${start},3,1,2500,1`,
+		].join("\n");
+
+		const { cards, skipped } = importAnkiRevlog(messy);
+
+		expect(cards[0].reviewLogs).toHaveLength(6);
+		expect(skipped).toEqual([
+			{ row: 9, reason: "Manual rescheduling is not a review" },
+			{ row: 10, reason: "Filtered deck preview without rescheduling" },
+			{ row: 11, reason: 'Invalid review timestamp: "yesterday"' },
+			{ row: 12, reason: "Invalid button: 7 must be between 0 and 4" },
+			{ row: 13, reason: "Missing card id" },
+		]);
+	});
+
+	it("should import filtered deck reviews when the export has no ease factor", () => {
+		const withoutFactor = [
+			"cid,id,ease,ivl,type",
+			`300,${start},3,1,0`,
+			`300,${start + 2 * DAY},3,4,3`,
+		].join("\n");
+
+		const { cards, skipped } = importAnkiRevlog(withoutFactor);
+
+		expect(skipped).toEqual([]);
+		expect(cards[0].reviewLogs.map((log) => log.state)).toEqual([State.New, State.Review]);
+	});
+
+	it("should throw when a required column is missing", () => {
+		expect(() => importAnkiRevlog("cid,id,ivl\n1,2,3")).toThrow("Missing column: button");
+	});
+
+	it("should return nothing for an empty file", () => {
+		expect(importAnkiRevlog("")).toEqual({ cards: [], skipped: [] });
+	});
+});
+
+describe("mapAnkiType", () => {
+	it("should map learn, review, relearn and filtered reviews", () => {
+		expect(mapAnkiType(0, false)).toBe(State.New);
+		expect(mapAnkiType(0, true)).toBe(State.Learning);
+		expect(mapAnkiType(1, true)).toBe(State.Review);
+		expect(mapAnkiType(2, true)).toBe(State.Relearning);
+		expect(mapAnkiType(3, true)).toBe(State.Review);
+		expect(() => mapAnkiType(9, true)).toThrow("Invalid type: 9");
+	});
+});
@@ -0,0 +1,192 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FileCardStore, MemoryCardStore } from "../cardStore";
+import { FSRS } from "../fsrs";
+import { CardStore, Rating, ReviewLog } from "../types";
+import { reviewCard } from "./helpers/cards";
+
+describe("CardStore", () => {
+	const fsrs = new FSRS();
+	const now = new Date("2024-01-01T00:00:00.000Z");
+
+	const reviewLogAt = (date: string): ReviewLog =>
+		fsrs.next(reviewCard("2024-01-01"), new Date(date), Rating.Good).reviewLog;
+
+	let tempDir: string;
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "fsrs-store-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	const implementations: Array<[string, () => CardStore]> = [
+		["MemoryCardStore", () => new MemoryCardStore()],
+		["FileCardStore (json)", () => new FileCardStore(path.join(tempDir, "cards.json"))],
+		["FileCardStore (ndjson)", () => new FileCardStore(path.join(tempDir, "cards.ndjson"))],
+	];
+
+	describe.each(implementations)("%s", (_name, createStore) => {
+		let store: CardStore;
+
+		beforeEach(() => {
+			store = createStore();
+		});
+
+		it("should put and get cards by id", async () => {
+			const card = fsrs.createEmptyCard(now);
+			await store.putCard("a", card);
+			await store.putCard("b", reviewCard("2024-01-05"));
+
+			expect(await store.getCard("a")).toEqual(card);
+			expect(await store.getCard("missing")).toBeUndefined();
+			expect((await store.getCards()).map(({ id }) => id)).toEqual(["a", "b"]);
+		});
+
+		it("should return copies of stored cards", async () => {
+			await store.putCard("a", reviewCard("2024-01-05"));
+
+			const card = (await store.getCard("a"))!;
+			card.due.setTime(0);
+			card.stability = 99;
+
+			expect(await store.getCard("a")).toEqual(reviewCard("2024-01-05"));
+		});
+
+		it("should reject empty ids", async () => {
+			await expect(store.putCard("", reviewCard("2024-01-05"))).rejects.toThrow(
+				"Card id cannot be empty"
+			);
+		});
+
+		it("should query review logs by card and date, oldest first", async () => {
+			await store.appendReviewLog("a", reviewLogAt("2024-01-03"));
+			await store.appendReviewLog("b", reviewLogAt("2024-01-02"));
+			await store.appendReviewLog("a", reviewLogAt("2024-01-01"));
+
+			const all = await store.getReviewLogs();
+			expect(all.map(({ cardId }) => cardId)).toEqual(["a", "b", "a"]);
+			expect(all[0].reviewLog).toEqual(reviewLogAt("2024-01-01"));
+
+			const ofA = await store.getReviewLogs({ cardId: "a" });
+			expect(ofA.map(({ reviewLog }) => reviewLog.review.toISOString())).toEqual([
+				"2024-01-01T00:00:00.000Z",
+				"2024-01-03T00:00:00.000Z",
+			]);
+
+			const range = await store.getReviewLogs({
+				since: new Date("2024-01-02"),
+				until: new Date("2024-01-03"),
+			});
+			expect(range).toHaveLength(2);
+		});
+
+		it("should save a card and its review log together", async () => {
+			const result = fsrs.next(reviewCard("2024-01-01"), now, Rating.Good);
+			await store.saveReview("a", result.card, result.reviewLog);
+
+			expect(await store.getCard("a")).toEqual(result.card);
+			expect(await store.getReviewLogs({ cardId: "a" })).toEqual([
+				{ cardId: "a", reviewLog: result.reviewLog },
+			]);
+		});
+
+		it("should return studied cards due by a date, most overdue first", async () => {
+			await store.putCard("new", fsrs.createEmptyCard(now));
+			await store.putCard("later", reviewCard("2024-01-10"));
+			await store.putCard("due", reviewCard("2024-01-01"));
+			await store.putCard("overdue", reviewCard("2023-12-30"));
+
+			const due = await store.getDueCards(now);
+			expect(due.map(({ id }) => id)).toEqual(["overdue", "due"]);
+			expect(await store.getDueCards(now, 1)).toHaveLength(1);
+		});
+	});
+
+	describe("FileCardStore", () => {
+		it("should reload what was written", async () => {
+			for (const file of ["cards.json", "cards.ndjson"]) {
+				const filePath = path.join(tempDir, file);
+				const result = fsrs.next(reviewCard("2024-01-01"), now, Rating.Again);
+
+				await new FileCardStore(filePath).putCard("b", reviewCard("2024-01-05"));
+				await new FileCardStore(filePath).saveReview("a", result.card, result.reviewLog);
+
+				const reopened = new FileCardStore(filePath);
+				expect(await reopened.getCard("a")).toEqual(result.card);
+				expect(await reopened.getCard("b")).toEqual(reviewCard("2024-01-05"));
+				expect(await reopened.getReviewLogs()).toEqual([
+					{ cardId: "a", reviewLog: result.reviewLog },
+				]);
+			}
+		});
+
+		it("should infer the format from the extension", () => {
+			expect(new FileCardStore("cards.json").format).toBe("json");
+			expect(new FileCardStore("cards.ndjson").format).toBe("ndjson");
+			expect(new FileCardStore("cards.jsonl").format).toBe("ndjson");
+			expect(new FileCardStore("cards.db", { format: "ndjson" }).format).toBe("ndjson");
+		});
+
+		it("should write a versioned JSON document without leaving temporary files", async () => {
+			const filePath = path.join(tempDir, "cards.json");
+			await new FileCardStore(filePath).putCard("a", reviewCard("2024-01-05"));
+
+			const document = JSON.parse(fs.readFileSync(filePath, "utf8"));
+			expect(document.schemaVersion).toBe(1);
+			expect(document.cards.a.state).toBe("REVIEW");
+			expect(fs.readdirSync(tempDir)).toEqual(["cards.json"]);
+		});
+
+		it("should write one NDJSON line per review", async () => {
+			const filePath = path.join(tempDir, "cards.ndjson");
+			const result = fsrs.next(reviewCard("2024-01-01"), now, Rating.Good);
+			await new FileCardStore(filePath).saveReview("a", result.card, result.reviewLog);
+
+			const lines = fs.readFileSync(filePath, "utf8").trim().split("\n");
+			expect(lines).toHaveLength(1);
+			expect(JSON.parse(lines[0])).toMatchObject({ type: "review", cardId: "a" });
+		});
+
+		it("should drop a partial last NDJSON line and append after it", async () => {
+			const filePath = path.join(tempDir, "cards.ndjson");
+			await new FileCardStore(filePath).putCard("a", reviewCard("2024-01-05"));
+			fs.appendFileSync(filePath, '{"type":"card","id":"b","card":{"sche');
+
+			const store = new FileCardStore(filePath);
+			expect(await store.getCard("b")).toBeUndefined();
+			await store.putCard("c", reviewCard("2024-01-06"));
+
+			const reopened = new FileCardStore(filePath);
+			expect((await reopened.getCards()).map(({ id }) => id)).toEqual(["a", "c"]);
+		});
+
+		it("should treat a missing file as an empty store", async () => {
+			const store = new FileCardStore(path.join(tempDir, "missing.json"));
+
+			expect(await store.getCards()).toEqual([]);
+			expect(fs.readdirSync(tempDir)).toEqual([]);
+		});
+
+		it("should report invalid records with their line number", async () => {
+			const filePath = path.join(tempDir, "cards.ndjson");
+			fs.writeFileSync(filePath, '{"type":"card","id":"a","card":{}}\n{"type":"other"}\n');
+
+			await expect(new FileCardStore(filePath).getCards()).rejects.toThrow(
+				`Invalid card store file ${filePath}: line 1:`
+			);
+		});
+
+		it("should reject documents from a newer schema version", async () => {
+			const filePath = path.join(tempDir, "cards.json");
+			fs.writeFileSync(filePath, JSON.stringify({ schemaVersion: 99, cards: {}, reviewLogs: [] }));
+
+			await expect(new FileCardStore(filePath).getCards()).rejects.toThrow(
+				"Unsupported schemaVersion: 99"
+			);
+		});
+	});
+});
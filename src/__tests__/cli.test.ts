@@ -0,0 +1,220 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FileCardStore } from "../cardStore";
+import { runCli } from "../cli";
+import { serializeParameters } from "../codec";
+import { cardsToCsv } from "../csvIO";
+import { FSRS } from "../fsrs";
+import { Rating } from "../types";
+import { reviewCard } from "./helpers/cards";
+
+describe("fsrs CLI", () => {
+	const fsrs = new FSRS();
+	const now = "2024-01-01T00:00:00.000Z";
+	let tempDir: string;
+	let out: string[];
+	let err: string[];
+
+	const run = (...args: string[]) =>
+		runCli(args, { out: (line) => out.push(line), err: (line) => err.push(line) });
+
+	const createStore = async (file: string) => {
+		const filePath = path.join(tempDir, file);
+		const store = new FileCardStore(filePath);
+		await store.putCard("new", fsrs.createEmptyCard(new Date(now)));
+		await store.putCard("due", reviewCard("2023-12-31T00:00:00.000Z"));
+		await store.putCard("later", reviewCard("2024-01-10T00:00:00.000Z"));
+		return filePath;
+	};
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "fsrs-cli-"));
+		out = [];
+		err = [];
+	});
+
+	afterEach(() => {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	describe("due", () => {
+		it("should list due cards", async () => {
+			const file = await createStore("cards.json");
+
+			expect(await run("due", "-c", file, "--now", now)).toBe(0);
+			const [header, ...rows] = out[0].split("\n");
+			expect(header).toMatch(/^Id\s+State\s+Due\s+Overdue$/);
+			expect(rows).toEqual([
+				expect.stringMatching(/^due\s+Review\s+2023-12-31T00:00:00.000Z\s+1d$/),
+			]);
+			expect(out[1]).toBe("1 card(s) due");
+		});
+
+		it("should say when nothing is due", async () => {
+			const file = await createStore("cards.json");
+
+			expect(await run("due", "-c", file, "--now", "2023-01-01")).toBe(0);
+			expect(out).toEqual(["No cards are due"]);
+		});
+	});
+
+	describe("review", () => {
+		it("should save the scheduled card and its log", async () => {
+			const file = await createStore("cards.ndjson");
+			const expected = fsrs.next(reviewCard("2023-12-31"), new Date(now), Rating.Good);
+
+			expect(await run("review", "due", "good", "-c", file, "--now", now)).toBe(0);
+			expect(out[0]).toContain(`due: Good, next review ${expected.card.due.toISOString()}`);
+
+			const store = new FileCardStore(file);
+			expect(await store.getCard("due")).toEqual(expected.card);
+			expect(await store.getReviewLogs({ cardId: "due" })).toHaveLength(1);
+		});
+
+		it("should rewrite CSV collections and keep their logs next to them", async () => {
+			const file = path.join(tempDir, "cards.csv");
+			fs.writeFileSync(file, cardsToCsv([reviewCard("2023-12-31")], ["a"]));
+
+			expect(await run("review", "a", "1", "-c", file, "--now", now)).toBe(0);
+			expect(fs.readFileSync(file, "utf8")).toContain(",RELEARNING,");
+			expect(fs.readdirSync(tempDir).sort()).toEqual(["cards.csv", "cards.reviews.ndjson"]);
+
+			const logs = new FileCardStore(path.join(tempDir, "cards.reviews.ndjson"));
+			expect(await logs.getReviewLogs({ cardId: "a" })).toHaveLength(1);
+			expect(await logs.getCards()).toEqual([]);
+
+			expect(await run("stats", "-c", file, "--now", now)).toBe(0);
+			expect(out).toContain("Retention: 0.0% (0 of 1 review(s) recalled, target 90.0%)");
+		});
+
+		it("should not log a review when the CSV cannot be written", async () => {
+			const file = path.join(tempDir, "cards.csv");
+			const csv = cardsToCsv([reviewCard("2023-12-31")], ["a"]);
+			fs.writeFileSync(file, csv);
+			// A directory in place of the temporary file makes the write fail.
+			fs.mkdirSync(`${file}.${process.pid}.tmp`);
+
+			expect(await run("review", "a", "good", "-c", file, "--now", now)).toBe(1);
+			expect(fs.readFileSync(file, "utf8")).toBe(csv);
+			expect(fs.existsSync(path.join(tempDir, "cards.reviews.ndjson"))).toBe(false);
+		});
+
+		it("should report unknown cards and ratings", async () => {
+			const file = await createStore("cards.json");
+
+			expect(await run("review", "missing", "good", "-c", file)).toBe(1);
+			expect(err).toEqual(['Error: Card not found: "missing"']);
+
+			expect(await run("review", "due", "great", "-c", file)).toBe(1);
+			expect(err[1]).toBe(
+				'Error: Invalid rating: "great". Must be one of: again, hard, good, easy (or 1-4)'
+			);
+		});
+	});
+
+	describe("preview", () => {
+		it("should print the outcome of every rating without saving", async () => {
+			const file = await createStore("cards.json");
+			const before = fs.readFileSync(file, "utf8");
+			const scheduled = fsrs.schedule(reviewCard("2023-12-31"), new Date(now));
+
+			expect(await run("preview", "due", "-c", file, "--now", now)).toBe(0);
+			expect(out[0]).toMatch(/^due: Review, due 2023-12-31T00:00:00.000Z, retrievability/);
+			expect(
+				out[1]
+					.split("\n")
+					.slice(1)
+					.map((line) => line.split(/\s+/)[0])
+			).toEqual(["Again", "Hard", "Good", "Easy"]);
+			expect(out[1]).toContain(scheduled.easy.card.due.toISOString());
+			expect(fs.readFileSync(file, "utf8")).toBe(before);
+		});
+	});
+
+	describe("stats", () => {
+		it("should summarize states, retrievability and retention", async () => {
+			const file = await createStore("cards.json");
+			await run("review", "due", "again", "-c", file, "--now", now);
+
+			expect(await run("stats", "-c", file, "--now", now)).toBe(0);
+			expect(out.slice(1)).toEqual([
+				"Cards: 3",
+				"  New: 1",
+				"  Learning: 0",
+				"  Review: 1",
+				"  Relearning: 1",
+				"Due: 0",
+				expect.stringMatching(/^Average retrievability: \d+\.\d% over 2 studied card\(s\)$/),
+				"Reviews: 1",
+				"Retention: 0.0% (0 of 1 review(s) recalled, target 90.0%)",
+			]);
+		});
+	});
+
+	describe("validate", () => {
+		it("should report invalid cards with their line and id", async () => {
+			const file = path.join(tempDir, "cards.csv");
+			const csv = cardsToCsv([reviewCard("2023-12-31"), reviewCard("2023-12-31")], ["a", "b"]);
+			fs.writeFileSync(file, csv.replace(/\nb,[^,]+,5,/, "\nb,2023-12-31T00:00:00.000Z,-1,"));
+
+			expect(await run("validate", "-c", file)).toBe(1);
+			expect(out).toEqual([
+				expect.stringMatching(/^line 3 \(b\): Invalid stability/),
+				"1 of 2 card(s) are invalid, 1 valid",
+			]);
+		});
+
+		it("should accept valid card stores", async () => {
+			const file = await createStore("cards.json");
+
+			expect(await run("validate", "-c", file)).toBe(0);
+			expect(out).toEqual(["All 3 card(s) are valid"]);
+		});
+	});
+
+	describe("arguments", () => {
+		it("should print the usage for --help and without a command", async () => {
+			expect(await run("--help")).toBe(0);
+			expect(await run()).toBe(0);
+			expect(out[0]).toMatch(/^Usage: fsrs <command>/);
+		});
+
+		it("should reject unknown commands, missing options and wrong argument counts", async () => {
+			expect(await run("delete", "-c", "cards.json")).toBe(2);
+			expect(await run("due")).toBe(2);
+			expect(await run("review", "a", "-c", "cards.json")).toBe(2);
+			expect(await run("due", "-c", "cards.json", "--limit", "0")).toBe(2);
+
+			expect(err.map((message) => message.split("\n")[0])).toEqual([
+				'Unknown command: "delete". Must be one of: due, review, preview, stats, validate',
+				"Missing option: --collection <file>",
+				'"review" expects 2 argument(s), got 1',
+				'Invalid --limit: "0" must be a positive integer',
+			]);
+		});
+
+		it("should reject unsupported collection files", async () => {
+			const file = path.join(tempDir, "cards.tsv");
+			fs.writeFileSync(file, cardsToCsv([reviewCard("2023-12-31")], ["a"]));
+			const message = `Error: Unsupported collection file: ${file}. Use a .json, .ndjson or .csv file`;
+
+			expect(await run("due", "-c", file)).toBe(1);
+			expect(await run("validate", "-c", file)).toBe(1);
+			expect(err).toEqual([message, message]);
+		});
+
+		it("should report missing files and load parameters", async () => {
+			const file = await createStore("cards.json");
+			const params = path.join(tempDir, "params.json");
+			fs.writeFileSync(params, JSON.stringify(serializeParameters({ maximumInterval: 1 })));
+
+			expect(await run("due", "-c", path.join(tempDir, "missing.json"))).toBe(1);
+			expect(err[0]).toBe(`Error: File not found: ${path.join(tempDir, "missing.json")}`);
+
+			expect(await run("preview", "due", "-c", file, "-p", params, "--now", now)).toBe(0);
+			expect(out[1]).toContain("1d");
+			expect(out[1]).not.toMatch(/\s[2-9]d\s/);
+		});
+	});
+});
@@ -0,0 +1,187 @@
+import {
+	parseCard,
+	parseParameters,
+	parseReviewLog,
+	SCHEMA_VERSION,
+	serializeCard,
+	serializeParameters,
+	serializeReviewLog,
+} from "../codec";
+import { FSRS } from "../fsrs";
+import { AlgorithmVersion, Rating, State } from "../types";
+import { distinctReviewCard } from "./helpers/cards";
+
+describe("codec", () => {
+	let fsrs: FSRS;
+	let now: Date;
+
+	const reviewCard = distinctReviewCard();
+
+	const roundTrip = <T>(value: T): unknown => JSON.parse(JSON.stringify(value));
+
+	beforeEach(() => {
+		fsrs = new FSRS({ learningSteps: ["1m", "10m"] });
+		now = new Date("2024-01-01T00:00:00.000Z");
+	});
+
+	describe("cards", () => {
+		it("should serialize dates as ISO strings and states as names", () => {
+			expect(serializeCard(reviewCard)).toEqual({
+				schemaVersion: SCHEMA_VERSION,
+				due: "2024-01-10T00:00:00.000Z",
+				stability: 5.8,
+				difficulty: 4.2,
+				elapsedDays: 4,
+				scheduledDays: 6,
+				reps: 3,
+				lapses: 1,
+				state: "REVIEW",
+				lastReview: "2024-01-04T00:00:00.000Z",
+			});
+		});
+
+		it("should round-trip cards in every state through JSON", () => {
+			const empty = fsrs.createEmptyCard(now);
+			const learning = fsrs.next(empty, now, Rating.Good).card;
+			const reset = fsrs.forget(reviewCard, now).card;
+
+			[empty, learning, reviewCard, reset].forEach((card) => {
+				expect(parseCard(roundTrip(serializeCard(card)))).toEqual(card);
+			});
+			expect(parseCard(JSON.stringify(serializeCard(learning))).learningStep).toBe(1);
+		});
+
+		it("should accept states stored as enum numbers", () => {
+			const serialized = { ...serializeCard(reviewCard), state: State.Review };
+
+			expect(parseCard(serialized).state).toBe(State.Review);
+		});
+
+		it("should validate studied cards with CardValidator", () => {
+			const serialized = { ...serializeCard(reviewCard), difficulty: 11 };
+
+			expect(() => parseCard(serialized)).toThrow(
+				"Invalid difficulty: 11 must be between 1 and 10"
+			);
+		});
+
+		it("should reject invalid new cards", () => {
+			const serialized = serializeCard(fsrs.createEmptyCard(now));
+
+			expect(() => parseCard({ ...serialized, due: "yesterday" })).toThrow(
+				'Invalid due: "yesterday" is not a valid date'
+			);
+			expect(() => parseCard({ ...serialized, reps: -1 })).toThrow(
+				"Invalid reps: -1 must be between 0 and Infinity"
+			);
+			expect(() => parseCard({ ...serialized, lastReview: "2024-01-01" })).toThrow(
+				"New cards should not have a lastReview date"
+			);
+		});
+
+		it("should round-trip reset cards that kept their counters", () => {
+			const { card } = fsrs.forget(reviewCard, now);
+
+			expect(parseCard(roundTrip(serializeCard(card)))).toEqual(card);
+		});
+
+		it("should reject unknown states", () => {
+			expect(() => parseCard({ ...serializeCard(reviewCard), state: "SUSPENDED" })).toThrow(
+				'Invalid state: "SUSPENDED". Must be one of: NEW, LEARNING, REVIEW, RELEARNING'
+			);
+		});
+	});
+
+	describe("review logs", () => {
+		it("should round-trip review logs through JSON", () => {
+			const { reviewLog } = fsrs.next(reviewCard, new Date("2024-01-10"), Rating.Hard);
+			const serialized = serializeReviewLog(reviewLog);
+
+			expect(serialized.rating).toBe("HARD");
+			expect(serialized.state).toBe("REVIEW");
+			expect(parseReviewLog(roundTrip(serialized))).toEqual(reviewLog);
+		});
+
+		it("should round-trip manual resets and logs of new cards", () => {
+			const empty = fsrs.createEmptyCard(now);
+			const logs = [
+				fsrs.next(empty, now, Rating.Again).reviewLog,
+				fsrs.forget(reviewCard, now).reviewLog,
+				fsrs.forget(reviewCard, now, { resetCounts: true }).reviewLog,
+			];
+
+			logs.forEach((log) => {
+				expect(parseReviewLog(JSON.stringify(serializeReviewLog(log)))).toEqual(log);
+			});
+		});
+
+		it("should accept ratings stored as enum numbers", () => {
+			const { reviewLog } = fsrs.next(reviewCard, new Date("2024-01-10"), Rating.Easy);
+			const serialized = { ...serializeReviewLog(reviewLog), rating: 4 };
+
+			expect(parseReviewLog(serialized).rating).toBe(Rating.Easy);
+		});
+
+		it("should reject unknown ratings", () => {
+			const { reviewLog } = fsrs.next(reviewCard, new Date("2024-01-10"), Rating.Good);
+
+			expect(() => parseReviewLog({ ...serializeReviewLog(reviewLog), rating: 7 })).toThrow(
+				'Invalid rating: "7"'
+			);
+		});
+	});
+
+	describe("parameters", () => {
+		it("should round-trip parameters into an equivalent scheduler", () => {
+			const original = new FSRS({
+				algorithmVersion: AlgorithmVersion.FSRS6,
+				requestRetention: 0.85,
+				learningSteps: ["1m", "10m"],
+				enableFuzz: true,
+				easyDays: [0, 1, 1, 1, 1, 1, 0.5],
+			});
+
+			const parsed = parseParameters(JSON.stringify(serializeParameters(original.getParameters())));
+
+			expect(new FSRS(parsed).getParameters()).toEqual(original.getParameters());
+		});
+
+		it("should reject unknown and invalid parameters", () => {
+			const base = { schemaVersion: SCHEMA_VERSION };
+
+			expect(() => parseParameters({ ...base, retention: 0.9 })).toThrow(
+				'Unknown parameter: "retention"'
+			);
+			expect(() => parseParameters({ ...base, enableFuzz: "yes" })).toThrow(
+				"Invalid enableFuzz: must be a boolean, got string"
+			);
+			expect(() => parseParameters({ ...base, algorithmVersion: "7" })).toThrow(
+				'Invalid algorithmVersion: "7"'
+			);
+			expect(() => parseParameters({ ...base, requestRetention: 1.5 })).toThrow(
+				"Invalid requestRetention"
+			);
+		});
+	});
+
+	describe("schema versions", () => {
+		it("should reject data without a schema version", () => {
+			const { schemaVersion, ...unversioned } = serializeCard(reviewCard);
+
+			expect(() => parseCard(unversioned)).toThrow(
+				"Invalid schemaVersion: undefined must be a positive integer"
+			);
+		});
+
+		it("should reject data written by a newer schema", () => {
+			expect(() =>
+				parseCard({ ...serializeCard(reviewCard), schemaVersion: SCHEMA_VERSION + 1 })
+			).toThrow(`Unsupported schemaVersion: ${SCHEMA_VERSION + 1}`);
+		});
+
+		it("should reject malformed JSON", () => {
+			expect(() => parseReviewLog("{")).toThrow("Invalid review log: not valid JSON");
+			expect(() => parseParameters("[]")).toThrow("Invalid parameters: must be an object");
+		});
+	});
+});
@@ -0,0 +1,176 @@
+import { createInterface } from "readline";
+import { Readable } from "stream";
+import {
+	CARD_CSV_COLUMNS,
+	cardsToCsv,
+	importCardsCsv,
+	importCardsCsvLines,
+	readCardsCsv,
+	readCardsCsvLines,
+	REVIEW_LOG_CSV_COLUMNS,
+	reviewLogsToCsv,
+} from "../csvIO";
+import { FSRS } from "../fsrs";
+import { Rating } from "../types";
+import { distinctReviewCard } from "./helpers/cards";
+
+describe("csvIO", () => {
+	let fsrs: FSRS;
+	let now: Date;
+
+	const reviewCard = distinctReviewCard();
+
+	beforeEach(() => {
+		fsrs = new FSRS();
+		now = new Date("2024-01-01T00:00:00.000Z");
+	});
+
+	describe("cardsToCsv", () => {
+		it("should write a header and one row per card", () => {
+			const csv = cardsToCsv([reviewCard], ["card-1"]);
+
+			expect(csv).toBe(
+				[
+					CARD_CSV_COLUMNS.join(","),
+					"card-1,2024-01-10T00:00:00.000Z,5.8,4.2,4,6,3,1,REVIEW,2024-01-04T00:00:00.000Z,",
+					"",
+				].join("\n")
+			);
+		});
+
+		it("should leave ids and missing dates empty", () => {
+			const [, row] = cardsToCsv([fsrs.createEmptyCard(now)]).split("\n");
+
+			expect(row).toBe(",2024-01-01T00:00:00.000Z,0,0,0,0,0,0,NEW,,");
+		});
+
+		it("should require one id per card", () => {
+			expect(() => cardsToCsv([reviewCard], ["a", "b"])).toThrow(
+				"Expected one id per card: got 2 ids for 1 cards"
+			);
+		});
+	});
+
+	describe("reviewLogsToCsv", () => {
+		it("should write ratings and states by name", () => {
+			const { reviewLog } = fsrs.next(reviewCard, new Date("2024-01-10"), Rating.Good);
+			const [header, row] = reviewLogsToCsv([reviewLog], ["card-1"]).split("\n");
+
+			expect(header).toBe(REVIEW_LOG_CSV_COLUMNS.join(","));
+			expect(row.split(",").slice(0, 4)).toEqual([
+				"card-1",
+				"2024-01-10T00:00:00.000Z",
+				"GOOD",
+				"REVIEW",
+			]);
+		});
+	});
+
+	describe("importCardsCsv", () => {
+		it("should round-trip exported cards", () => {
+			const cards = [reviewCard, fsrs.createEmptyCard(now), fsrs.forget(reviewCard, now).card];
+
+			const { valid, errors } = importCardsCsv(cardsToCsv(cards));
+
+			expect(errors).toEqual([]);
+			expect(valid).toEqual(cards);
+		});
+
+		it("should round-trip cards on a learning step", () => {
+			const stepped = new FSRS({ learningSteps: ["1m", "10m", "1h"] });
+			const { card } = stepped.next(stepped.createEmptyCard(now), now, Rating.Good);
+			expect(card.learningStep).toBe(1);
+
+			const { valid, errors } = importCardsCsv(cardsToCsv([card]));
+
+			expect(errors).toEqual([]);
+			expect(valid).toEqual([card]);
+		});
+
+		it("should report invalid rows with their line numbers", () => {
+			const csv = [
+				"id,due,stability,difficulty,elapsedDays,reps,lapses,state,lastReview",
+				"a,2024-01-10,5.8,4.2,4,3,1,REVIEW,2024-01-04",
+				"",
+				"b,2024-01-10,5.8,11,4,3,1,REVIEW,2024-01-04",
+				"c,2024-01-10,5.8,4.2,4,3,1,SUSPENDED,2024-01-04",
+			].join("\n");
+
+			const { valid, errors } = importCardsCsv(csv);
+
+			expect(valid).toHaveLength(1);
+			expect(errors.map(({ index, row, error }) => ({ index, row, error }))).toEqual([
+				{ index: 1, row: 4, error: "Invalid difficulty: 11 must be between 1 and 10" },
+				{
+					index: 2,
+					row: 5,
+					error: 'Invalid state: "SUSPENDED". Must be one of: NEW, LEARNING, REVIEW, RELEARNING',
+				},
+			]);
+			expect(errors[0].data.id).toBe("b");
+		});
+
+		it("should throw when a required column is missing", () => {
+			expect(() => importCardsCsv("id,due,state\n1,2024-01-01,NEW")).toThrow(
+				"Missing column: stability"
+			);
+		});
+	});
+
+	describe("importCardsCsvLines", () => {
+		it("should import a stream of lines like importCardsCsv", async () => {
+			const csv = cardsToCsv([reviewCard, fsrs.createEmptyCard(now)], ["a", "b"]);
+			const lines = createInterface({ input: Readable.from([csv.slice(0, 40), csv.slice(40)]) });
+
+			expect(await importCardsCsvLines(lines)).toEqual(importCardsCsv(csv));
+		});
+
+		it("should throw when a required column is missing", async () => {
+			await expect(importCardsCsvLines(["id,due,state", "1,2024-01-01,NEW"])).rejects.toThrow(
+				"Missing column: stability"
+			);
+		});
+	});
+
+	describe("readCardsCsv", () => {
+		it("should map headers case-insensitively and ignore unknown columns", () => {
+			const csv = [
+				"Card_Id,DUE,Stability,difficulty,elapsed_days,reps,lapses,state,notes",
+				"42,2024-01-10,5.8,4.2,4,0,0,new,hello",
+			].join("\n");
+
+			expect(readCardsCsv(csv)).toEqual([
+				{
+					row: 2,
+					data: {
+						cardId: "42",
+						due: "2024-01-10",
+						stability: "5.8",
+						difficulty: "4.2",
+						elapsedDays: "4",
+						reps: "0",
+						lapses: "0",
+						state: "new",
+					},
+				},
+			]);
+		});
+
+		it("should yield the same rows from lines, including quoted line breaks", async () => {
+			const csv = [
+				"id,due,stability,difficulty,elapsedDays,reps,lapses,state",
+				'"a\nb",2024-01-10,5.8,4.2,4,3,1,REVIEW',
+				"",
+				"c,2024-01-10,5.8,4.2,4,3,1,REVIEW",
+			].join("\n");
+
+			const rows = [];
+			for await (const row of readCardsCsvLines(csv.split("\n"))) {
+				rows.push(row);
+			}
+
+			expect(rows).toEqual(readCardsCsv(csv));
+			expect(rows.map(({ row }) => row)).toEqual([2, 5]);
+		});
+	});
+});
@@ -0,0 +1,212 @@
+import { Deck } from "../deck";
+import { FSRS } from "../fsrs";
+import { Card, Rating, RawCardData, State } from "../types";
+import { reviewCard } from "./helpers/cards";
+
+describe("Deck", () => {
+	let deck: Deck;
+	let now: Date;
+
+	beforeEach(() => {
+		now = new Date("2024-01-01T00:00:00.000Z");
+		deck = new Deck(new FSRS());
+	});
+
+	describe("addCard", () => {
+		it("should add an empty card when none is given", () => {
+			const card = deck.addCard("a", undefined, now);
+
+			expect(card.state).toBe(State.New);
+			expect(deck.size).toBe(1);
+			expect(deck.getCard("a")).toEqual(card);
+		});
+
+		it("should reject duplicate and empty ids", () => {
+			deck.addCard("a");
+
+			expect(() => deck.addCard("a")).toThrow('Card "a" already exists in the deck');
+			expect(() => deck.addCard("")).toThrow("Card id cannot be empty");
+		});
+
+		it("should accept cards passed to the constructor", () => {
+			const seeded = new Deck(new FSRS(), [{ id: "a", card: reviewCard("2024-01-01") }]);
+
+			expect(seeded.getCard("a")?.state).toBe(State.Review);
+		});
+	});
+
+	describe("addRawCard", () => {
+		const raw: RawCardData = {
+			id: "row-1",
+			cardId: "card-1",
+			due: "2024-01-05T00:00:00.000Z",
+			stability: 5.8,
+			difficulty: 3.99,
+			elapsedDays: 0,
+			reps: 1,
+			lapses: 0,
+			state: "REVIEW",
+			lastReview: "2023-12-30T00:00:00.000Z",
+		};
+
+		it("should key the card by cardId", () => {
+			deck.addRawCard(raw);
+
+			expect(deck.getCard("card-1")?.stability).toBe(5.8);
+		});
+
+		it("should fall back to id", () => {
+			deck.addRawCard({ ...raw, cardId: undefined });
+
+			expect(deck.getCard("row-1")).toBeDefined();
+		});
+
+		it("should reject raw data without an id", () => {
+			expect(() => deck.addRawCard({ ...raw, id: undefined, cardId: undefined })).toThrow(
+				"Raw card data must have a cardId or id"
+			);
+		});
+
+		it("should read ids and fields through a mapping", () => {
+			const row = {
+				card_id: 42,
+				due: 1704412800,
+				stability: 5.8,
+				difficulty: 3.99,
+				elapsed_days: 0,
+				reps: 1,
+				lapses: 0,
+				state: 2,
+				last_review: 1703894400,
+			};
+
+			deck.addRawCard(row, {
+				fields: { cardId: "card_id", elapsedDays: "elapsed_days", lastReview: "last_review" },
+				stateCodes: { 2: State.Review },
+				timestampUnit: "seconds",
+			});
+
+			expect(deck.getCard("42")?.due).toEqual(new Date("2024-01-05T00:00:00.000Z"));
+		});
+	});
+
+	describe("getDue", () => {
+		beforeEach(() => {
+			deck.addCard("later", reviewCard("2024-01-03"));
+			deck.addCard("overdue", reviewCard("2023-12-30"));
+			deck.addCard("today", reviewCard("2024-01-01"));
+			deck.addCard("new", undefined, new Date("2023-12-01"));
+		});
+
+		it("should return due studied cards, most overdue first", () => {
+			expect(deck.getDue(now).map((entry) => entry.id)).toEqual(["overdue", "today"]);
+		});
+
+		it("should respect the limit", () => {
+			expect(deck.getDue(now, 1).map((entry) => entry.id)).toEqual(["overdue"]);
+		});
+
+		it("should include cards due later on the learner's current day", () => {
+			const zoned = new Deck(new FSRS({ timezone: "UTC", dayRolloverHour: 4 }));
+			zoned.addCard("tonight", reviewCard("2024-01-10T22:00:00Z"));
+			zoned.addCard("tomorrow", reviewCard("2024-01-11T05:00:00Z"));
+
+			// 03:00 still belongs to January 9th, 05:00 is January 10th.
+			expect(zoned.getDue(new Date("2024-01-10T03:00:00Z"))).toEqual([]);
+			expect(zoned.getDue(new Date("2024-01-10T05:00:00Z")).map((entry) => entry.id)).toEqual([
+				"tonight",
+			]);
+		});
+	});
+
+	describe("getNew", () => {
+		it("should return new cards in insertion order", () => {
+			deck.addCard("b");
+			deck.addCard("studied", reviewCard("2024-01-01"));
+			deck.addCard("a");
+
+			expect(deck.getNew().map((entry) => entry.id)).toEqual(["b", "a"]);
+			expect(deck.getNew(1).map((entry) => entry.id)).toEqual(["b"]);
+		});
+	});
+
+	describe("getCounts", () => {
+		it("should count cards per state", () => {
+			deck.addCard("a");
+			deck.addCard("b");
+			deck.addCard("c", reviewCard("2024-01-01"));
+
+			expect(deck.getCounts()).toEqual({
+				[State.New]: 2,
+				[State.Learning]: 0,
+				[State.Review]: 1,
+				[State.Relearning]: 0,
+			});
+		});
+	});
+
+	describe("review", () => {
+		it("should apply the rating and store the updated card", () => {
+			deck.addCard("a", undefined, now);
+
+			const { card, reviewLog } = deck.review("a", Rating.Good, now);
+
+			expect(card.reps).toBe(1);
+			expect(reviewLog.rating).toBe(Rating.Good);
+			expect(deck.getCard("a")).toEqual(card);
+			expect(deck.getNew()).toHaveLength(0);
+		});
+
+		it("should throw for unknown ids", () => {
+			expect(() => deck.review("missing", Rating.Good, now)).toThrow(
+				'Card "missing" not found in the deck'
+			);
+		});
+	});
+
+	describe("load balancing", () => {
+		it("should count studied cards due per day", () => {
+			deck.addCard("a", reviewCard("2024-01-03T12:00:00.000Z"));
+			deck.addCard("b", reviewCard("2024-01-03T13:00:00.000Z"));
+			deck.addCard("c", reviewCard("2024-01-05T12:00:00.000Z"));
+			deck.addCard("new");
+
+			const fsrs = new FSRS();
+			const counts = deck.getDueCounts();
+
+			expect(counts[fsrs.getDayKey(new Date("2024-01-03T12:00:00.000Z"))]).toBe(2);
+			expect(counts[fsrs.getDayKey(new Date("2024-01-05T12:00:00.000Z"))]).toBe(1);
+			expect(Object.values(counts).reduce((a, b) => a + b, 0)).toBe(3);
+			expect(deck.getDueCounts("a")[fsrs.getDayKey(new Date("2024-01-03T12:00:00.000Z"))]).toBe(1);
+		});
+
+		it("should spread cards reviewed together across days", () => {
+			const balanced = new Deck(new FSRS({ enableLoadBalance: true }));
+			const card: Card = { ...reviewCard("2024-01-01"), stability: 30 };
+			for (let i = 0; i < 10; i++) balanced.addCard(`card-${i}`, card);
+
+			const dueDays = new Set<number>();
+			for (let i = 0; i < 10; i++) {
+				dueDays.add(balanced.review(`card-${i}`, Rating.Good, now).card.scheduledDays);
+			}
+
+			expect(dueDays.size).toBeGreaterThan(1);
+		});
+	});
+
+	it("should not expose its stored cards for mutation", () => {
+		deck.addCard("a", undefined, now);
+		deck.getCard("a")!.reps = 10;
+		deck.entries()[0].card.reps = 10;
+
+		expect(deck.getCard("a")?.reps).toBe(0);
+	});
+
+	it("should remove cards", () => {
+		deck.addCard("a");
+
+		expect(deck.removeCard("a")).toBe(true);
+		expect(deck.removeCard("a")).toBe(false);
+		expect(deck.size).toBe(0);
+	});
+});
@@ -0,0 +1,92 @@
+import { evaluateParameters } from "../evaluator";
+import { FSRS } from "../fsrs";
+import { FSRSOptimizer } from "../optimizer";
+import { Rating } from "../types";
+import { generateHistories } from "./helpers/reviewHistories";
+
+describe("evaluateParameters", () => {
+	const truth = new FSRS();
+	const histories = generateHistories(truth, 40, 6, { seed: 7, maxDelayDays: 10 });
+	const forgetful = { w: [0.1, 0.1, 0.1, 0.1, ...truth.getParameters().w.slice(4)] };
+
+	it("should report the same log-loss as the optimizer", () => {
+		const [evaluation] = evaluateParameters(histories, [{ name: "default", parameters: {} }]);
+		const { loss, count } = new FSRSOptimizer().computeLoss(histories);
+
+		expect(evaluation.name).toBe("default");
+		expect(evaluation.reviewCount).toBe(count);
+		expect(evaluation.logLoss).toBeCloseTo(loss, 10);
+		expect(evaluation.parameters).toEqual(truth.getParameters());
+	});
+
+	it("should rank the true parameters above a worse set", () => {
+		const [good, bad] = evaluateParameters(histories, [
+			{ name: "default", parameters: {} },
+			{ name: "forgetful", parameters: forgetful },
+		]);
+
+		expect(bad.name).toBe("forgetful");
+		expect(good.logLoss).toBeLessThan(bad.logLoss);
+		expect(good.rmseBins).toBeLessThan(bad.rmseBins);
+		expect(good.rmseBins).toBeGreaterThanOrEqual(0);
+		expect(good.auc).toBeGreaterThan(0.5);
+		expect(good.auc).toBeLessThanOrEqual(1);
+	});
+
+	it("should ignore the order of logs within a history", () => {
+		const shuffled = histories.map((history) => [...history].reverse());
+
+		expect(evaluateParameters(shuffled, [{ name: "a", parameters: {} }])).toEqual(
+			evaluateParameters(histories, [{ name: "a", parameters: {} }])
+		);
+	});
+
+	it("should compute AUC from how predictions rank outcomes", () => {
+		// One card forgotten after a long gap and one recalled after a short gap:
+		// the recalled review has the higher prediction, so the ranking is perfect.
+		const history = (gapDays: number, rating: Rating) =>
+			truth.replay([
+				{ rating: Rating.Good, review: new Date("2024-01-01T00:00:00.000Z") },
+				{ rating, review: new Date(Date.UTC(2024, 0, 1 + gapDays)) },
+			]).reviewLogs;
+
+		const [perfect] = evaluateParameters(
+			[history(30, Rating.Again), history(2, Rating.Good)],
+			[{ name: "default", parameters: {} }]
+		);
+		const [inverted] = evaluateParameters(
+			[history(30, Rating.Good), history(2, Rating.Again)],
+			[{ name: "default", parameters: {} }]
+		);
+
+		expect(perfect.auc).toBe(1);
+		expect(inverted.auc).toBe(0);
+	});
+
+	it("should leave AUC undefined when every review had the same outcome", () => {
+		const logs = truth.replay([
+			{ rating: Rating.Good, review: new Date("2024-01-01T00:00:00.000Z") },
+			{ rating: Rating.Good, review: new Date("2024-01-05T00:00:00.000Z") },
+		]).reviewLogs;
+
+		const [evaluation] = evaluateParameters([logs], [{ name: "default", parameters: {} }]);
+
+		expect(evaluation.reviewCount).toBe(1);
+		expect(evaluation.auc).toBeUndefined();
+	});
+
+	it("should reject missing candidates and histories without predictable reviews", () => {
+		expect(() => evaluateParameters(histories, [])).toThrow(
+			"Invalid candidates: at least one parameter set is required"
+		);
+		expect(() => evaluateParameters([], [{ name: "default", parameters: {} }])).toThrow(
+			"No reviews to evaluate"
+		);
+	});
+
+	it("should validate each parameter set", () => {
+		expect(() =>
+			evaluateParameters(histories, [{ name: "broken", parameters: { w: [1, 2] } }])
+		).toThrow(/requires 17 or 19 weights/);
+	});
+});
@@ -1,5 +1,7 @@
 import { FSRS } from "../fsrs";
+import { getFuzzRange } from "../utils/fuzz";
 import {
+	AlgorithmVersion,
 	Card,
 	Rating,
 	State,
@@ -42,6 +44,29 @@ describe("FSRS", () => {
 			expect(params.w).toEqual(new Array(19).fill(1));
 		});
 
+		it("should reject parameters that would produce nonsense intervals", () => {
+			expect(() => new FSRS({ requestRetention: 1.5 })).toThrow("Invalid requestRetention");
+			expect(() => new FSRS({ maximumInterval: 0 })).toThrow("Invalid maximumInterval");
+			expect(() => new FSRS({ w: [-1, ...new Array(16).fill(1)] })).toThrow(
+				"Invalid w[0]: -1 cannot be negative"
+			);
+			expect(() => new FSRS({ w: [1, 1, 0, ...new Array(14).fill(1)] })).toThrow(
+				"Invalid w[2]: 0 must be greater than 0"
+			);
+			expect(() => fsrs.updateParameters({ requestRetention: 0 })).toThrow(
+				"Invalid requestRetention"
+			);
+		});
+
+		it("should reject a zero FSRS-6 forgetting curve decay", () => {
+			const w = [...new FSRS({ algorithmVersion: AlgorithmVersion.FSRS6 }).getParameters().w];
+			w[20] = 0;
+
+			expect(() => new FSRS({ algorithmVersion: AlgorithmVersion.FSRS6, w })).toThrow(
+				"Invalid w[20]: 0 must be greater than 0"
+			);
+		});
+
 		it("should merge custom parameters with defaults", () => {
 			const customParams: Partial<FSRSParameters> = {
 				requestRetention: 0.95,
@@ -288,6 +313,777 @@ describe("FSRS", () => {
 		});
 	});
 
+	describe("learning steps", () => {
+		let stepped: FSRS;
+
+		beforeEach(() => {
+			stepped = new FSRS({ learningSteps: ["1m", "10m"], relearningSteps: ["10m"] });
+		});
+
+		it("should keep a new card in Learning minutes ahead when rated Again", () => {
+			const result = stepped.schedule(stepped.createEmptyCard(now), now);
+
+			expect(result.again.card.state).toBe(State.Learning);
+			expect(result.again.card.learningStep).toBe(0);
+			expect(result.again.card.scheduledDays).toBe(0);
+			expect(result.again.card.due).toEqual(new Date("2024-01-01T00:01:00.000Z"));
+			expect(result.again.card.lapses).toBe(0);
+		});
+
+		it("should wait between the first two steps when rated Hard", () => {
+			const result = stepped.schedule(stepped.createEmptyCard(now), now);
+
+			expect(result.hard.card.state).toBe(State.Learning);
+			expect(result.hard.card.due).toEqual(new Date("2024-01-01T00:05:30.000Z"));
+		});
+
+		it("should advance a step on Good and graduate after the last step", () => {
+			let card = stepped.next(stepped.createEmptyCard(now), now, Rating.Good).card;
+			expect(card.state).toBe(State.Learning);
+			expect(card.learningStep).toBe(1);
+			expect(card.due).toEqual(new Date("2024-01-01T00:10:00.000Z"));
+
+			card = stepped.next(card, card.due, Rating.Good).card;
+			expect(card.state).toBe(State.Review);
+			expect(card.learningStep).toBeUndefined();
+			expect(card.scheduledDays).toBeGreaterThanOrEqual(1);
+		});
+
+		it("should graduate immediately on Easy", () => {
+			const result = stepped.schedule(stepped.createEmptyCard(now), now);
+
+			expect(result.easy.card.state).toBe(State.Review);
+			expect(result.easy.card.scheduledDays).toBeGreaterThanOrEqual(1);
+		});
+
+		it("should send a lapsed review card through the relearning steps", () => {
+			const reviewCard: Card = {
+				due: now,
+				stability: 5,
+				difficulty: 5,
+				elapsedDays: 5,
+				scheduledDays: 5,
+				reps: 3,
+				lapses: 0,
+				state: State.Review,
+				lastReview: new Date("2023-12-27"),
+			};
+
+			const lapsed = stepped.next(reviewCard, now, Rating.Again).card;
+			expect(lapsed.state).toBe(State.Relearning);
+			expect(lapsed.lapses).toBe(1);
+			expect(lapsed.due).toEqual(new Date("2024-01-01T00:10:00.000Z"));
+
+			const relearned = stepped.next(lapsed, lapsed.due, Rating.Good).card;
+			expect(relearned.state).toBe(State.Review);
+			expect(relearned.lapses).toBe(1);
+		});
+
+		it("should not change Review scheduling for successful ratings", () => {
+			const reviewCard: Card = {
+				due: now,
+				stability: 5,
+				difficulty: 5,
+				elapsedDays: 5,
+				scheduledDays: 5,
+				reps: 3,
+				lapses: 0,
+				state: State.Review,
+				lastReview: new Date("2023-12-27"),
+			};
+
+			expect(stepped.schedule(reviewCard, now).good.card).toEqual(
+				fsrs.schedule(reviewCard, now).good.card
+			);
+		});
+
+		it("should reject malformed steps", () => {
+			expect(() => new FSRS({ learningSteps: ["10 minutes"] })).toThrow(
+				'Invalid step: "10 minutes". Use a positive number followed by s, m, h or d'
+			);
+			expect(() => fsrs.updateParameters({ relearningSteps: ["0m"] })).toThrow(/Invalid step/);
+		});
+	});
+
+	describe("interval fuzzing", () => {
+		const reviewCard: Card = {
+			due: new Date("2024-01-01"),
+			stability: 30,
+			difficulty: 5,
+			elapsedDays: 30,
+			scheduledDays: 30,
+			reps: 5,
+			lapses: 0,
+			state: State.Review,
+			lastReview: new Date("2023-12-02"),
+		};
+
+		it("should be disabled by default", () => {
+			expect(fsrs.getParameters().enableFuzz).toBe(false);
+		});
+
+		it("should keep intervals within the fuzz range", () => {
+			const fuzzed = new FSRS({ enableFuzz: true });
+			const base = fsrs.schedule(reviewCard, now);
+
+			for (let i = 0; i < 20; i++) {
+				const reviewTime = new Date(now.getTime() + i * 60 * 1000);
+				const result = fuzzed.schedule(reviewCard, reviewTime);
+				const baseInterval = base.good.card.scheduledDays;
+				const { minInterval, maxInterval } = getFuzzRange(baseInterval, 30, 36500);
+
+				expect(result.good.card.scheduledDays).toBeGreaterThanOrEqual(minInterval);
+				expect(result.good.card.scheduledDays).toBeLessThanOrEqual(maxInterval);
+			}
+		});
+
+		it("should spread cards reviewed at different times", () => {
+			const fuzzed = new FSRS({ enableFuzz: true });
+			const intervals = new Set<number>();
+
+			for (let i = 0; i < 20; i++) {
+				const reviewTime = new Date(now.getTime() + i * 1000);
+				intervals.add(fuzzed.schedule(reviewCard, reviewTime).good.card.scheduledDays);
+			}
+
+			expect(intervals.size).toBeGreaterThan(1);
+		});
+
+		it("should be reproducible for the same card and review time", () => {
+			const first = new FSRS({ enableFuzz: true }).schedule(reviewCard, now);
+			const second = new FSRS({ enableFuzz: true }).schedule(reviewCard, now);
+
+			expect(first).toEqual(second);
+		});
+
+		it("should never reorder Hard, Good and Easy", () => {
+			const fuzzed = new FSRS({ enableFuzz: true });
+
+			for (let i = 0; i < 50; i++) {
+				const card: Card = { ...reviewCard, stability: 1 + i * 0.7 };
+				const result = fuzzed.schedule(card, new Date(now.getTime() + i * 1000));
+
+				expect(result.hard.card.scheduledDays).toBeLessThanOrEqual(result.good.card.scheduledDays);
+				expect(result.good.card.scheduledDays).toBeLessThanOrEqual(result.easy.card.scheduledDays);
+			}
+		});
+
+		it("should respect maximum interval", () => {
+			const fuzzed = new FSRS({ enableFuzz: true, maximumInterval: 30 });
+			const result = fuzzed.schedule({ ...reviewCard, stability: 100 }, now);
+
+			expect(result.hard.card.scheduledDays).toBeLessThanOrEqual(30);
+			expect(result.good.card.scheduledDays).toBeLessThanOrEqual(30);
+			expect(result.easy.card.scheduledDays).toBeLessThanOrEqual(30);
+		});
+
+		it("should not fuzz learning steps", () => {
+			const fuzzed = new FSRS({ enableFuzz: true, learningSteps: ["1m", "10m"] });
+			const result = fuzzed.schedule(fuzzed.createEmptyCard(now), now);
+
+			expect(result.good.card.due).toEqual(new Date("2024-01-01T00:10:00.000Z"));
+		});
+	});
+
+	describe("load balancing", () => {
+		const reviewCard: Card = {
+			due: new Date("2024-01-01"),
+			stability: 30,
+			difficulty: 5,
+			elapsedDays: 30,
+			scheduledDays: 30,
+			reps: 5,
+			lapses: 0,
+			state: State.Review,
+			lastReview: new Date("2023-12-02"),
+		};
+
+		const dayKey = (days: number) =>
+			fsrs.getDayKey(new Date(now.getTime() + days * 24 * 60 * 60 * 1000));
+
+		it("should be ignored unless enabled", () => {
+			const target = fsrs.schedule(reviewCard, now).good.card.scheduledDays;
+			const result = fsrs.schedule(reviewCard, now, { dueCounts: { [dayKey(target)]: 100 } });
+
+			expect(result.good.card.scheduledDays).toBe(target);
+		});
+
+		it("should keep the computed interval when nothing else is due", () => {
+			const balanced = new FSRS({ enableLoadBalance: true });
+			const target = fsrs.schedule(reviewCard, now).good.card.scheduledDays;
+
+			expect(balanced.schedule(reviewCard, now, { dueCounts: {} }).good.card.scheduledDays).toBe(
+				target
+			);
+		});
+
+		it("should move to the least-loaded day within the fuzz range", () => {
+			const balanced = new FSRS({ enableLoadBalance: true });
+			const target = fsrs.schedule(reviewCard, now).good.card.scheduledDays;
+			const { minInterval, maxInterval } = getFuzzRange(target, 30, 36500);
+
+			const dueCounts: Record<string, number> = {};
+			for (let days = minInterval; days <= maxInterval; days++) {
+				dueCounts[dayKey(days)] = 50;
+			}
+			dueCounts[dayKey(maxInterval)] = 3;
+
+			const result = balanced.schedule(reviewCard, now, { dueCounts });
+
+			expect(result.good.card.scheduledDays).toBe(maxInterval);
+			expect(fsrs.getDayKey(result.good.card.due)).toBe(dayKey(maxInterval));
+		});
+
+		it("should never reorder Hard, Good and Easy", () => {
+			const balanced = new FSRS({ enableLoadBalance: true });
+			const base = fsrs.schedule(reviewCard, now);
+			const { minInterval } = getFuzzRange(base.easy.card.scheduledDays, 30, 36500);
+
+			// Make every day except the earliest acceptable Easy day busy.
+			const dueCounts: Record<string, number> = {};
+			for (let days = 1; days <= 400; days++) dueCounts[dayKey(days)] = 10;
+			dueCounts[dayKey(minInterval)] = 0;
+
+			const result = balanced.schedule(reviewCard, now, { dueCounts });
+
+			expect(result.hard.card.scheduledDays).toBeLessThanOrEqual(result.good.card.scheduledDays);
+			expect(result.good.card.scheduledDays).toBeLessThanOrEqual(result.easy.card.scheduledDays);
+		});
+	});
+
+	describe("easy days", () => {
+		const reviewCard: Card = {
+			due: new Date("2024-01-01"),
+			stability: 30,
+			difficulty: 5,
+			elapsedDays: 30,
+			scheduledDays: 30,
+			reps: 5,
+			lapses: 0,
+			state: State.Review,
+			lastReview: new Date("2023-12-02"),
+		};
+
+		const weekendsOff = [0, 1, 1, 1, 1, 1, 0];
+
+		it("should keep intervals unchanged when every weekday has full weight", () => {
+			const even = new FSRS({ easyDays: [1, 1, 1, 1, 1, 1, 1] });
+
+			expect(even.schedule(reviewCard, now)).toEqual(fsrs.schedule(reviewCard, now));
+		});
+
+		it("should never schedule day intervals on rest days", () => {
+			const scheduler = new FSRS({ easyDays: weekendsOff });
+
+			for (let offset = 0; offset < 7; offset++) {
+				const reviewTime = new Date(now.getTime() + offset * 24 * 60 * 60 * 1000);
+				const result = scheduler.schedule({ ...reviewCard, due: reviewTime }, reviewTime);
+
+				[result.hard, result.good, result.easy].forEach(({ card }) => {
+					expect([0, 6]).not.toContain(card.due.getDay());
+				});
+			}
+		});
+
+		it("should prefer full days over light days", () => {
+			const target = fsrs.schedule(reviewCard, now).good.card;
+			const easyDays = [1, 1, 1, 1, 1, 1, 1];
+			easyDays[target.due.getDay()] = 0.5;
+
+			const result = new FSRS({ easyDays }).schedule(reviewCard, now);
+
+			expect(result.good.card.due.getDay()).not.toBe(target.due.getDay());
+			expect(Math.abs(result.good.card.scheduledDays - target.scheduledDays)).toBe(1);
+		});
+
+		it("should keep Hard, Good and Easy in order", () => {
+			const scheduler = new FSRS({ easyDays: [0, 0, 0, 0, 0, 1, 0] });
+			const result = scheduler.schedule(reviewCard, now);
+
+			expect(result.hard.card.scheduledDays).toBeLessThanOrEqual(result.good.card.scheduledDays);
+			expect(result.good.card.scheduledDays).toBeLessThanOrEqual(result.easy.card.scheduledDays);
+		});
+
+		it("should reject invalid weights", () => {
+			expect(() => new FSRS({ easyDays: [1, 1, 1] })).toThrow("Invalid easyDays");
+			expect(() => new FSRS({ easyDays: [0, 0, 0, 0, 0, 0, 0] })).toThrow("Invalid easyDays");
+			expect(() => new FSRS({ easyDays: [2, 1, 1, 1, 1, 1, 1] })).toThrow("Invalid easyDays");
+		});
+	});
+
+	describe("day boundaries", () => {
+		const scheduler = new FSRS({ timezone: "America/New_York", dayRolloverHour: 4 });
+
+		const reviewCard = (lastReview: string, due: string): Card => ({
+			due: new Date(due),
+			stability: 10,
+			difficulty: 5,
+			elapsedDays: 10,
+			scheduledDays: 10,
+			reps: 3,
+			lapses: 0,
+			state: State.Review,
+			lastReview: new Date(lastReview),
+		});
+
+		it("should count learner days crossed rather than 24-hour periods", () => {
+			// 23:00 and 10:00 the next morning in New York: only 11 hours, but a new day.
+			const lastReview = new Date("2024-01-11T04:00:00Z");
+			const now = new Date("2024-01-11T15:00:00Z");
+
+			expect(fsrs.getElapsedDays(lastReview, now)).toBe(0);
+			expect(scheduler.getElapsedDays(lastReview, now)).toBe(1);
+		});
+
+		it("should treat reviews before the rollover hour as the previous day", () => {
+			// 20:00 and 01:00 the following night in New York.
+			const lastReview = new Date("2024-01-11T01:00:00Z");
+			const now = new Date("2024-01-11T06:00:00Z");
+
+			expect(scheduler.getElapsedDays(lastReview, now)).toBe(0);
+			expect(scheduler.getDayKey(now)).toBe("2024-01-10");
+		});
+
+		it("should make day intervals due at the start of the learner day", () => {
+			const now = new Date("2024-01-20T22:00:00Z");
+			const card = reviewCard("2024-01-10T15:00:00Z", "2024-01-20T09:00:00Z");
+			const { card: next } = scheduler.next(card, now, Rating.Good);
+
+			expect(next.elapsedDays).toBe(10);
+			expect(next.due.toISOString()).toMatch(/T09:00:00\.000Z$/);
+			expect(scheduler.getDayKey(next.due)).toBe(
+				scheduler.getDayKey(new Date(now.getTime() + next.scheduledDays * 24 * 60 * 60 * 1000))
+			);
+		});
+
+		it("should report cards due from the start of their learner day", () => {
+			const card = reviewCard("2024-01-01T15:00:00Z", "2024-01-10T20:00:00Z");
+
+			expect(scheduler.isDue(card, new Date("2024-01-10T08:59:00Z"))).toBe(false);
+			expect(scheduler.isDue(card, new Date("2024-01-10T09:00:00Z"))).toBe(true);
+			expect(fsrs.isDue(card, new Date("2024-01-10T09:00:00Z"))).toBe(false);
+		});
+
+		it("should keep learning steps due at their exact time", () => {
+			const stepped = new FSRS({ timezone: "America/New_York", learningSteps: ["10m"] });
+			const now = new Date("2024-01-10T15:00:00Z");
+			const { card } = stepped.next(stepped.createEmptyCard(now), now, Rating.Again);
+
+			expect(stepped.isDue(card, new Date("2024-01-10T15:05:00Z"))).toBe(false);
+			expect(stepped.isDue(card, new Date("2024-01-10T15:10:00Z"))).toBe(true);
+		});
+
+		it("should reject unknown time zones and rollover hours", () => {
+			expect(() => new FSRS({ timezone: "Mars/Olympus_Mons" })).toThrow("Invalid timezone");
+			expect(() => new FSRS({ dayRolloverHour: 24 })).toThrow("Invalid dayRolloverHour");
+			expect(() => new FSRS({ dayRolloverHour: 1.5 })).toThrow("Invalid dayRolloverHour");
+		});
+	});
+
+	describe("fractional elapsed days", () => {
+		const smooth = new FSRS({ fractionalElapsedDays: true });
+		const card: Card = {
+			due: new Date("2024-01-02T00:00:00Z"),
+			stability: 2,
+			difficulty: 5,
+			elapsedDays: 0,
+			scheduledDays: 2,
+			reps: 1,
+			lapses: 0,
+			state: State.Review,
+			lastReview: new Date("2024-01-01T00:00:00Z"),
+		};
+
+		it("should report retrievability below 1 within the first day", () => {
+			const later = new Date("2024-01-01T23:00:00Z");
+
+			expect(fsrs.getRetrievability(card, later)).toBe(1);
+			expect(smooth.getRetrievability(card, later)).toBeLessThan(1);
+		});
+
+		it("should produce a smooth forgetting curve", () => {
+			const hours = [6, 12, 18, 24, 30];
+			const values = hours.map(
+				(h) => smooth.getRetrievability(card, new Date(Date.UTC(2024, 0, 1, h))) as number
+			);
+
+			for (let i = 1; i < values.length; i++) {
+				expect(values[i]).toBeLessThan(values[i - 1]);
+			}
+			expect(values[3]).toBeCloseTo(fsrs.getRetrievability(card, new Date("2024-01-02")) as number);
+		});
+
+		it("should feed fractional retrievability into the stability update", () => {
+			const review = new Date("2024-01-03T12:00:00Z");
+
+			const whole = fsrs.next(card, review, Rating.Good).card;
+			const exact = smooth.next(card, review, Rating.Good).card;
+
+			expect(exact.elapsedDays).toBe(whole.elapsedDays);
+			expect(exact.stability).toBeGreaterThan(whole.stability);
+		});
+	});
+
+	describe("raw card mapping", () => {
+		it("should schedule rows read through a mapping", () => {
+			const row = {
+				due_at: "2024-01-05T00:00:00.000Z",
+				stability: 5.8,
+				difficulty: 3.99,
+				elapsed_days: 5,
+				reps: 2,
+				lapses: 0,
+				state: "review",
+				last_review: "2023-12-31T00:00:00.000Z",
+			};
+			const mapping = {
+				fields: { due: "due_at", elapsedDays: "elapsed_days", lastReview: "last_review" },
+			};
+
+			const card = fsrs.convertRawCard(row, mapping);
+			const result = fsrs.scheduleRawCard(row, now, mapping);
+
+			expect(card.lastReview).toEqual(new Date("2023-12-31T00:00:00.000Z"));
+			expect(result).toEqual(fsrs.schedule(card, now));
+			expect(fsrs.convertRawCardBatch([row], mapping).valid).toEqual([card]);
+		});
+	});
+
+	describe("hooks", () => {
+		const reviewCard: Card = {
+			due: new Date("2024-01-01"),
+			stability: 30,
+			difficulty: 5,
+			elapsedDays: 30,
+			scheduledDays: 30,
+			reps: 5,
+			lapses: 0,
+			state: State.Review,
+			lastReview: new Date("2023-12-02"),
+		};
+
+		it("should run hooks in lifecycle and registration order", () => {
+			const calls: string[] = [];
+			fsrs.addHook("afterSchedule", () => calls.push("afterSchedule"));
+			fsrs.addHook("afterCalculate", ({ rating }) => {
+				calls.push(`afterCalculate:${Rating[rating]}`);
+			});
+			fsrs.addHook("beforeSchedule", () => calls.push("beforeSchedule:1"));
+			fsrs.addHook("beforeSchedule", () => calls.push("beforeSchedule:2"));
+
+			fsrs.schedule(reviewCard, now);
+
+			expect(calls).toEqual([
+				"beforeSchedule:1",
+				"beforeSchedule:2",
+				"afterCalculate:Again",
+				"afterCalculate:Hard",
+				"afterCalculate:Good",
+				"afterCalculate:Easy",
+				"afterSchedule",
+			]);
+		});
+
+		it("should let afterCalculate cap intervals", () => {
+			const capDays = 10;
+			fsrs.addHook("afterCalculate", ({ now, scheduled }) => {
+				if (scheduled.scheduledDays <= capDays) return;
+				return {
+					...scheduled,
+					scheduledDays: capDays,
+					due: new Date(now.getTime() + capDays * 24 * 60 * 60 * 1000),
+				};
+			});
+
+			const result = fsrs.schedule(reviewCard, now);
+
+			expect(result.easy.card.scheduledDays).toBe(capDays);
+			expect(result.easy.card.stability).toBeGreaterThan(capDays);
+			expect(fsrs.next(reviewCard, now, Rating.Good).card.scheduledDays).toBe(capDays);
+		});
+
+		it("should pass the final outcomes to afterSchedule", () => {
+			const seen: number[] = [];
+			fsrs.addHook("afterSchedule", ({ result }) => {
+				seen.push(result.good.card.scheduledDays);
+			});
+
+			const result = fsrs.schedule(reviewCard, now);
+
+			expect(seen).toEqual([result.good.card.scheduledDays]);
+		});
+
+		it("should give hooks a frozen copy of the input card", () => {
+			const original = { ...reviewCard, due: new Date(reviewCard.due) };
+			fsrs.addHook("beforeSchedule", ({ card }) => {
+				expect(Object.isFrozen(card)).toBe(true);
+				expect(() => {
+					(card as Card).stability = 1;
+				}).toThrow();
+				card.due.setFullYear(1999);
+			});
+
+			fsrs.schedule(original, now);
+
+			expect(original).toEqual(reviewCard);
+		});
+
+		it("should let beforeSchedule reject a review", () => {
+			fsrs.addHook("beforeSchedule", ({ card }) => {
+				if (card.state === State.Review) throw new Error("Reviews are paused");
+			});
+
+			expect(() => fsrs.next(reviewCard, now, Rating.Good)).toThrow("Reviews are paused");
+		});
+
+		it("should unregister hooks", () => {
+			const hook = jest.fn();
+			const remove = fsrs.addHook("afterSchedule", hook);
+
+			fsrs.schedule(reviewCard, now);
+			remove();
+			fsrs.schedule(reviewCard, now);
+
+			expect(hook).toHaveBeenCalledTimes(1);
+		});
+
+		it("should reject unknown hook names", () => {
+			expect(() => fsrs.addHook("beforeReview" as any, () => {})).toThrow(
+				'Invalid hook: "beforeReview". Must be one of: beforeSchedule, afterCalculate, afterSchedule'
+			);
+		});
+	});
+
+	describe("nextMemoryState", () => {
+		it("should match the memory state of next", () => {
+			const history = [
+				{ rating: Rating.Good, review: new Date("2024-01-01") },
+				{ rating: Rating.Again, review: new Date("2024-01-04") },
+				{ rating: Rating.Easy, review: new Date("2024-01-09") },
+			];
+			const fuzzed = new FSRS({ enableFuzz: true, relearningSteps: ["10m"] });
+
+			let card = fuzzed.createEmptyCard(now);
+			history.forEach(({ rating, review }) => {
+				const expected = fuzzed.next(card, review, rating).card;
+				card = fuzzed.nextMemoryState(card, review, rating);
+
+				const { due, scheduledDays, ...memory } = expected;
+				expect(card).toMatchObject(memory);
+			});
+		});
+
+		it("should reject manual ratings", () => {
+			expect(() => fsrs.nextMemoryState(fsrs.createEmptyCard(now), now, Rating.Manual)).toThrow(
+				"Invalid rating: 0. Must be Again, Hard, Good or Easy"
+			);
+		});
+	});
+
+	describe("replay", () => {
+		const history = [
+			{ rating: Rating.Good, review: new Date("2024-01-01T00:00:00.000Z") },
+			{ rating: Rating.Good, review: new Date("2024-01-04T00:00:00.000Z") },
+			{ rating: Rating.Again, review: new Date("2024-01-20T00:00:00.000Z") },
+			{ rating: Rating.Easy, review: new Date("2024-01-21T00:00:00.000Z") },
+		];
+
+		it("should match scheduling the reviews one by one", () => {
+			let card = fsrs.createEmptyCard(history[0].review);
+			history.forEach((entry) => {
+				card = fsrs.next(card, entry.review, entry.rating).card;
+			});
+
+			const result = fsrs.replay(history);
+
+			expect(result.card).toEqual(card);
+			expect(result.card.reps).toBe(4);
+			expect(result.card.lapses).toBe(1);
+			expect(result.reviewLogs).toHaveLength(4);
+			expect(result.reviewLogs.map((log) => log.rating)).toEqual(
+				history.map((entry) => entry.rating)
+			);
+		});
+
+		it("should accept existing review logs", () => {
+			const { reviewLogs, card } = fsrs.replay(history);
+
+			expect(fsrs.replay(reviewLogs).card).toEqual(card);
+		});
+
+		it("should recompute cards under new parameters", () => {
+			const tuned = new FSRS({ requestRetention: 0.8 });
+
+			expect(tuned.replay(history).card.scheduledDays).toBeGreaterThan(
+				fsrs.replay(history).card.scheduledDays
+			);
+		});
+
+		it("should return an empty card for an empty history", () => {
+			const result = fsrs.replay([], now);
+
+			expect(result.card).toEqual(fsrs.createEmptyCard(now));
+			expect(result.reviewLogs).toEqual([]);
+		});
+
+		it("should reject out-of-order history", () => {
+			expect(() => fsrs.replay([history[1], history[0]])).toThrow(
+				"Review history is not in chronological order at index 1"
+			);
+		});
+
+		it("should reject invalid entries", () => {
+			expect(() => fsrs.replay([{ rating: 7 as Rating, review: now }])).toThrow(
+				"Invalid rating at history index 0: 7"
+			);
+			expect(() => fsrs.replay([{ rating: Rating.Good, review: new Date("nope") }])).toThrow(
+				"Invalid review date at history index 0"
+			);
+		});
+	});
+
+	describe("rollback", () => {
+		it("should restore a new card after its first review", () => {
+			const card = fsrs.createEmptyCard(now);
+			const { card: reviewed, reviewLog } = fsrs.next(card, now, Rating.Good);
+
+			expect(fsrs.rollback(reviewed, reviewLog)).toEqual(card);
+		});
+
+		it("should restore reps, lapses and lastReview of a review card", () => {
+			const { card } = fsrs.replay([
+				{ rating: Rating.Good, review: new Date("2024-01-01") },
+				{ rating: Rating.Good, review: new Date("2024-01-05") },
+			]);
+			const later = new Date("2024-01-20");
+			const { card: lapsed, reviewLog } = fsrs.next(card, later, Rating.Again);
+
+			const restored = fsrs.rollback(lapsed, reviewLog);
+
+			expect(restored).toEqual(card);
+			expect(restored.reps).toBe(2);
+			expect(restored.lapses).toBe(0);
+			expect(restored.lastReview).toEqual(new Date("2024-01-05"));
+		});
+
+		it("should restore the learning step", () => {
+			const stepped = new FSRS({ learningSteps: ["1m", "10m"] });
+			const first = stepped.next(stepped.createEmptyCard(now), now, Rating.Good).card;
+			const { card, reviewLog } = stepped.next(first, first.due, Rating.Good);
+
+			expect(stepped.rollback(card, reviewLog)).toEqual(first);
+			expect(stepped.rollback(card, reviewLog).learningStep).toBe(1);
+		});
+
+		it("should reject a log from a different review", () => {
+			const { card, reviewLogs } = fsrs.replay([
+				{ rating: Rating.Good, review: new Date("2024-01-01") },
+				{ rating: Rating.Good, review: new Date("2024-01-05") },
+			]);
+
+			expect(() => fsrs.rollback(card, reviewLogs[0])).toThrow(
+				"Review log does not match the card's latest review"
+			);
+		});
+
+		it("should reject a log whose counters do not match", () => {
+			const { card, reviewLog } = fsrs.next(fsrs.createEmptyCard(now), now, Rating.Good);
+
+			expect(() => fsrs.rollback({ ...card, reps: 5 }, reviewLog)).toThrow(
+				"Review log does not match the card's reps and lapses"
+			);
+		});
+
+		it("should reject logs that do not record the counters", () => {
+			const { card, reviewLog } = fsrs.next(fsrs.createEmptyCard(now), now, Rating.Good);
+			const { reps, lapses, ...legacyLog } = reviewLog;
+
+			expect(() => fsrs.rollback(card, legacyLog)).toThrow(
+				"Review log does not record reps and lapses, so it cannot be rolled back"
+			);
+		});
+	});
+
+	describe("forget", () => {
+		const reviewCard: Card = {
+			due: new Date("2024-01-05"),
+			stability: 5,
+			difficulty: 5,
+			elapsedDays: 5,
+			scheduledDays: 5,
+			reps: 3,
+			lapses: 1,
+			state: State.Review,
+			lastReview: new Date("2023-12-27"),
+		};
+
+		it("should reset memory state and keep counters by default", () => {
+			const { card } = fsrs.forget(reviewCard, now);
+
+			expect(card.state).toBe(State.New);
+			expect(card.due).toEqual(now);
+			expect(card.stability).toBe(0);
+			expect(card.difficulty).toBe(0);
+			expect(card.scheduledDays).toBe(0);
+			expect(card.lastReview).toBeUndefined();
+			expect(card.reps).toBe(3);
+			expect(card.lapses).toBe(1);
+		});
+
+		it("should clear counters when resetCounts is set", () => {
+			const { card } = fsrs.forget(reviewCard, now, { resetCounts: true });
+
+			expect(card).toEqual(fsrs.createEmptyCard(now));
+		});
+
+		it("should emit a manual review log", () => {
+			const { reviewLog } = fsrs.forget(reviewCard, now);
+
+			expect(reviewLog.rating).toBe(Rating.Manual);
+			expect(reviewLog.state).toBe(State.Review);
+			expect(reviewLog.stability).toBe(5);
+			expect(reviewLog.review).toEqual(now);
+		});
+
+		it("should be undone by rollback", () => {
+			const { card, reviewLog } = fsrs.forget(reviewCard, now, { resetCounts: true });
+
+			expect(fsrs.rollback(card, reviewLog)).toEqual(reviewCard);
+		});
+
+		it("should be replayed as a reset", () => {
+			const history = [
+				{ rating: Rating.Good, review: new Date("2024-01-01") },
+				{ rating: Rating.Good, review: new Date("2024-01-05") },
+				{ rating: Rating.Manual, review: new Date("2024-01-10") },
+			];
+
+			const { card, reviewLogs } = fsrs.replay(history);
+
+			expect(card.state).toBe(State.New);
+			expect(card.reps).toBe(2);
+			expect(reviewLogs[2].rating).toBe(Rating.Manual);
+		});
+
+		it("should record resetCounts so replaying its logs rebuilds the counters", () => {
+			const first = fsrs.next(fsrs.createEmptyCard(now), now, Rating.Good);
+			const reset = fsrs.forget(first.card, new Date("2024-01-10"), { resetCounts: true });
+			const second = fsrs.next(reset.card, new Date("2024-01-11"), Rating.Good);
+
+			expect(reset.reviewLog.resetCounts).toBe(true);
+			expect(fsrs.forget(first.card, now).reviewLog).not.toHaveProperty("resetCounts");
+			expect(fsrs.replay([first.reviewLog, reset.reviewLog, second.reviewLog], now).card).toEqual(
+				second.card
+			);
+		});
+
+		it("should not be accepted by next", () => {
+			expect(() => fsrs.next(reviewCard, now, Rating.Manual)).toThrow(
+				"Invalid rating: 0. Must be Again, Hard, Good or Easy"
+			);
+		});
+	});
+
 	describe("getRetrievability", () => {
 		it("should return undefined for new cards", () => {
 			const newCard = fsrs.createEmptyCard(now);
@@ -369,6 +1165,132 @@ describe("FSRS", () => {
 		});
 	});
 
+	describe("algorithm versions", () => {
+		const reviewCard: Card = {
+			due: new Date("2024-01-05"),
+			stability: 5,
+			difficulty: 5,
+			elapsedDays: 5,
+			scheduledDays: 5,
+			reps: 3,
+			lapses: 0,
+			state: State.Review,
+			lastReview: new Date("2023-12-27"),
+		};
+
+		it("should default to FSRS-4", () => {
+			expect(fsrs.getParameters().algorithmVersion).toBe(AlgorithmVersion.FSRS4);
+		});
+
+		it("should use the FSRS-4.5 forgetting curve and defaults", () => {
+			const fsrs45 = new FSRS({ algorithmVersion: AlgorithmVersion.FSRS4_5 });
+			const card: Card = { ...reviewCard, stability: 10, lastReview: now };
+			const later = new Date("2024-03-11");
+
+			expect(fsrs45.getParameters().w.slice(0, 4)).toEqual([0.4872, 1.4003, 3.7145, 13.8206]);
+			// 70 days after the review: (1 + 19/81 * 70/10) ^ -0.5 against 1 / (1 + 70/90).
+			expect(fsrs45.getRetrievability(card, later)).toBeCloseTo(Math.pow(1 + 133 / 81, -0.5), 10);
+			expect(fsrs.getRetrievability(card, later)).toBeCloseTo(1 / (1 + 70 / 90), 10);
+		});
+
+		it("should use the default weights of the selected version", () => {
+			const fsrs5 = new FSRS({ algorithmVersion: AlgorithmVersion.FSRS5 });
+			const fsrs6 = new FSRS({ algorithmVersion: AlgorithmVersion.FSRS6 });
+
+			expect(fsrs5.getParameters().w).toHaveLength(19);
+			expect(fsrs6.getParameters().w).toHaveLength(21);
+		});
+
+		it("should reject weights of the wrong length for the version", () => {
+			expect(() => new FSRS({ w: new Array(18).fill(1) })).toThrow(
+				"FSRS-4 requires 17 or 19 weights, got 18"
+			);
+			expect(
+				() => new FSRS({ algorithmVersion: AlgorithmVersion.FSRS6, w: new Array(19).fill(1) })
+			).toThrow("FSRS-6 requires 21 weights, got 19");
+		});
+
+		it("should reject unknown versions", () => {
+			expect(() => new FSRS({ algorithmVersion: "7" as AlgorithmVersion })).toThrow(
+				'Invalid algorithmVersion: "7". Must be one of: 4, 4.5, 5, 6'
+			);
+		});
+
+		it.each([AlgorithmVersion.FSRS4_5, AlgorithmVersion.FSRS5, AlgorithmVersion.FSRS6])(
+			"should reach request retention at the scheduled interval with FSRS-%s",
+			(algorithmVersion) => {
+				const versioned = new FSRS({ algorithmVersion, maximumInterval: 36500 });
+				const card: Card = { ...reviewCard, stability: 20, lastReview: now };
+
+				expect(versioned.getRetrievability(card, now)).toBe(1);
+				expect(versioned.getRetrievability(card, new Date("2024-01-21"))).toBeCloseTo(0.9, 5);
+			}
+		);
+
+		it.each([AlgorithmVersion.FSRS5, AlgorithmVersion.FSRS6])(
+			"should keep Hard < Good < Easy ordering with FSRS-%s",
+			(algorithmVersion) => {
+				const versioned = new FSRS({ algorithmVersion });
+				const result = versioned.schedule(reviewCard, now);
+
+				expect(result.again.card.stability).toBeLessThan(reviewCard.stability);
+				expect(result.hard.card.stability).toBeLessThan(result.good.card.stability);
+				expect(result.good.card.stability).toBeLessThan(result.easy.card.stability);
+				expect(result.easy.card.difficulty).toBeLessThan(result.good.card.difficulty);
+			}
+		);
+
+		it("should use short-term stability for same-day reviews in FSRS-5", () => {
+			const fsrs5 = new FSRS({ algorithmVersion: AlgorithmVersion.FSRS5 });
+			const w = fsrs5.getParameters().w;
+			const card: Card = { ...reviewCard, lastReview: now };
+
+			const result = fsrs5.schedule(card, now);
+
+			expect(result.good.card.stability).toBeCloseTo(5 * Math.exp(w[17] * w[18]), 10);
+			expect(result.again.card.stability).toBeCloseTo(5 * Math.exp(w[17] * (w[18] - 2)), 10);
+		});
+
+		it("should read the forgetting curve decay from w[20] in FSRS-6", () => {
+			const card: Card = { ...reviewCard, stability: 10, lastReview: now };
+			const steep = new FSRS({ algorithmVersion: AlgorithmVersion.FSRS6 });
+			const w = [...steep.getParameters().w];
+			w[20] = 0.6;
+			const flat = new FSRS({ algorithmVersion: AlgorithmVersion.FSRS6, w });
+
+			// Both curves pass through 0.9 at t = S but diverge afterwards.
+			const later = new Date("2024-03-01");
+			expect(flat.getRetrievability(card, new Date("2024-01-11"))).toBeCloseTo(0.9, 5);
+			expect(flat.getRetrievability(card, later)).not.toBeCloseTo(
+				steep.getRetrievability(card, later)!,
+				3
+			);
+		});
+
+		it("should switch to the new version's default weights on update", () => {
+			fsrs.updateParameters({ algorithmVersion: AlgorithmVersion.FSRS6 });
+
+			expect(fsrs.getParameters().algorithmVersion).toBe(AlgorithmVersion.FSRS6);
+			expect(fsrs.getParameters().w).toHaveLength(21);
+		});
+
+		it("should keep the current version when updated with an undefined version", () => {
+			const expected = fsrs.schedule(reviewCard, now);
+
+			fsrs.updateParameters({ algorithmVersion: undefined });
+
+			expect(fsrs.getParameters().algorithmVersion).toBe(AlgorithmVersion.FSRS4);
+			expect(fsrs.schedule(reviewCard, now)).toEqual(expected);
+		});
+
+		it("should validate weights passed to updateParameters", () => {
+			expect(() => fsrs.updateParameters({ w: [1, 2, 3] })).toThrow(
+				"FSRS-4 requires 17 or 19 weights, got 3"
+			);
+			expect(fsrs.getParameters().w).toHaveLength(17);
+		});
+	});
+
 	describe("updateParameters", () => {
 		it("should update parameters", () => {
 			const newParams: Partial<FSRSParameters> = {
@@ -0,0 +1,31 @@
+import { Card, State } from "../../types";
+
+// A card in the Review state, last reviewed on 2023-12-27 and due at `due`.
+export function reviewCard(due: string): Card {
+	return {
+		due: new Date(due),
+		stability: 5,
+		difficulty: 5,
+		elapsedDays: 5,
+		scheduledDays: 5,
+		reps: 3,
+		lapses: 0,
+		state: State.Review,
+		lastReview: new Date("2023-12-27T00:00:00.000Z"),
+	};
+}
+
+// A Review card whose numeric fields all differ, so serialization tests catch swapped fields.
+export function distinctReviewCard(): Card {
+	return {
+		due: new Date("2024-01-10T00:00:00.000Z"),
+		stability: 5.8,
+		difficulty: 4.2,
+		elapsedDays: 4,
+		scheduledDays: 6,
+		reps: 3,
+		lapses: 1,
+		state: State.Review,
+		lastReview: new Date("2024-01-04T00:00:00.000Z"),
+	};
+}
@@ -0,0 +1,50 @@
+import { FSRS } from "../../fsrs";
+import { Card, Rating, ReviewLog } from "../../types";
+
+export interface HistoryOptions {
+	seed: number;
+	easyShare?: number; // Share of recalled reviews rated Easy instead of Good, defaults to 0
+	maxDelayDays?: number; // Review up to this many days after the due date, defaults to 0
+}
+
+// Small deterministic PRNG so the generated histories are stable between runs.
+export function createRandom(seed: number): () => number {
+	let state = seed;
+	return () => {
+		state = (state * 1664525 + 1013904223) % 4294967296;
+		return state / 4294967296;
+	};
+}
+
+// Simulates review histories where recall follows the forgetting curve of `truth`.
+export function generateHistories(
+	truth: FSRS,
+	cardCount: number,
+	reviewsPerCard: number,
+	{ seed, easyShare = 0, maxDelayDays = 0 }: HistoryOptions
+): ReviewLog[][] {
+	const random = createRandom(seed);
+	const start = new Date("2024-01-01T00:00:00.000Z");
+
+	return Array.from({ length: cardCount }, () => {
+		const logs: ReviewLog[] = [];
+		let card: Card = truth.createEmptyCard(start);
+		let now = new Date(start);
+
+		for (let i = 0; i < reviewsPerCard; i++) {
+			const retrievability = truth.getRetrievability(card, now) ?? 0;
+			const recalled = i === 0 || random() < retrievability;
+			let rating = recalled ? Rating.Good : Rating.Again;
+			if (recalled && i > 0 && easyShare > 0 && random() >= 1 - easyShare) rating = Rating.Easy;
+
+			const result = truth.next(card, now, rating);
+			logs.push(result.reviewLog);
+			card = result.card;
+			// Reviewing late makes recall vary with the interval.
+			const delay = maxDelayDays > 0 ? random() * maxDelayDays * 24 * 60 * 60 * 1000 : 0;
+			now = new Date(card.due.getTime() + delay);
+		}
+
+		return logs;
+	});
+}
@@ -0,0 +1,60 @@
+import { FSRS } from "../fsrs";
+import { FSRSOptimizer } from "../optimizer";
+import { generateHistories } from "./helpers/reviewHistories";
+
+// Some recalled reviews are rated Easy, reviews happen on the due date.
+const HISTORY_OPTIONS = { seed: 42, easyShare: 0.2 };
+
+describe("FSRSOptimizer", () => {
+	const truth = new FSRS({
+		w: [1, 2, 4, 8, 5, 1, 1, 0.05, 1.2, 0.2, 1.1, 2, 0.1, 0.3, 1.5, 0.4, 2.5],
+	});
+
+	it("should refuse to train on too little data", () => {
+		const optimizer = new FSRSOptimizer({ minReviews: 100 });
+		const histories = generateHistories(truth, 2, 3, HISTORY_OPTIONS);
+
+		expect(() => optimizer.train(histories)).toThrow(/Not enough review data to train/);
+	});
+
+	it("should reject initial weights that are too short", () => {
+		expect(() => new FSRSOptimizer({ initialWeights: [1, 2, 3] })).toThrow(
+			"initialWeights must contain at least 17 weights, got 3"
+		);
+	});
+
+	it("should reduce the log-loss on review history", () => {
+		const optimizer = new FSRSOptimizer({ maxIterations: 15, minReviews: 50 });
+		const histories = generateHistories(truth, 20, 6, HISTORY_OPTIONS);
+
+		const result = optimizer.train(histories);
+
+		expect(result.reviewCount).toBeGreaterThanOrEqual(50);
+		expect(result.iterations).toBeGreaterThan(0);
+		expect(result.iterations).toBeLessThanOrEqual(15);
+		expect(result.loss).toBeLessThan(result.initialLoss);
+		expect(result.parameters.w).toHaveLength(17);
+		expect(result.parameters.requestRetention).toBe(0.9);
+	});
+
+	it("should return parameters usable by the FSRS constructor", () => {
+		const optimizer = new FSRSOptimizer({ maxIterations: 3, minReviews: 50 });
+		const result = optimizer.train(generateHistories(truth, 20, 6, HISTORY_OPTIONS));
+
+		const fsrs = new FSRS(result.parameters);
+		const scheduled = fsrs.schedule(fsrs.createEmptyCard());
+
+		expect(scheduled.good.card.scheduledDays).toBeGreaterThanOrEqual(1);
+	});
+
+	it("should compute the loss of given parameters without training", () => {
+		const optimizer = new FSRSOptimizer({ minReviews: 50 });
+		const histories = generateHistories(truth, 20, 6, HISTORY_OPTIONS);
+
+		const trueLoss = optimizer.computeLoss(histories, truth.getParameters());
+		const defaultLoss = optimizer.computeLoss(histories);
+
+		expect(trueLoss.count).toBe(defaultLoss.count);
+		expect(trueLoss.loss).toBeGreaterThan(0);
+	});
+});
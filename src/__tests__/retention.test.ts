@@ -0,0 +1,65 @@
+import { computeOptimalRetention, simulateRetention } from "../retention";
+import { ReviewCosts } from "../types";
+
+describe("optimal retention", () => {
+	const costs: ReviewCosts = { again: 20, hard: 15, good: 8, easy: 5, learn: 25 };
+	const options = { horizonDays: 90, learnPerDay: 10 };
+
+	describe("computeOptimalRetention", () => {
+		it("should return the candidate with the lowest time per memorized card", () => {
+			const result = computeOptimalRetention({}, costs, 40, {
+				...options,
+				candidates: [0.75, 0.85, 0.95],
+			});
+
+			const best = Math.min(...result.simulations.map((s) => s.timePerMemorized));
+			const chosen = result.simulations.find((s) => s.requestRetention === result.requestRetention);
+
+			expect(result.simulations).toHaveLength(3);
+			expect(chosen?.timePerMemorized).toBe(best);
+		});
+
+		it("should try 0.70 to 0.95 by default", () => {
+			const result = computeOptimalRetention({}, costs, 5, { horizonDays: 10 });
+
+			expect(result.simulations).toHaveLength(26);
+			expect(result.simulations[0].requestRetention).toBe(0.7);
+			expect(result.simulations[25].requestRetention).toBe(0.95);
+		});
+
+		it("should be deterministic for the same seed", () => {
+			const first = computeOptimalRetention({}, costs, 20, { ...options, candidates: [0.8, 0.9] });
+			const second = computeOptimalRetention({}, costs, 20, { ...options, candidates: [0.8, 0.9] });
+
+			expect(first).toEqual(second);
+		});
+
+		it("should reject invalid input", () => {
+			expect(() => computeOptimalRetention({}, costs, 0)).toThrow(
+				"Invalid deckSize: 0 must be a positive integer"
+			);
+			expect(() => computeOptimalRetention({}, costs, 10, { candidates: [1.2] })).toThrow(
+				"Invalid candidates: retentions must be between 0 and 1"
+			);
+		});
+	});
+
+	describe("simulateRetention", () => {
+		it("should spend more time for a higher retention", () => {
+			const low = simulateRetention({ requestRetention: 0.75 }, costs, 40, options);
+			const high = simulateRetention({ requestRetention: 0.95 }, costs, 40, options);
+
+			expect(high.totalTime).toBeGreaterThan(low.totalTime);
+			expect(high.memorized).toBeGreaterThan(low.memorized);
+		});
+
+		it("should charge the learn cost once per card", () => {
+			const result = simulateRetention({}, { ...costs, again: 0, hard: 0, good: 0, easy: 0 }, 30, {
+				horizonDays: 1,
+				learnPerDay: 30,
+			});
+
+			expect(result.totalTime).toBe(30 * 25);
+		});
+	});
+});
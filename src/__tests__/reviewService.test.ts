@@ -0,0 +1,76 @@
+import { MemoryCardStore } from "../cardStore";
+import { FSRS } from "../fsrs";
+import { ReviewService } from "../reviewService";
+import { Rating } from "../types";
+import { reviewCard } from "./helpers/cards";
+
+describe("ReviewService", () => {
+	let store: MemoryCardStore;
+	let service: ReviewService;
+	const now = new Date("2024-01-01T00:00:00.000Z");
+
+	beforeEach(() => {
+		store = new MemoryCardStore();
+		service = new ReviewService(store, new FSRS());
+	});
+
+	describe("review", () => {
+		it("should schedule the stored card and persist the card and its log", async () => {
+			await store.putCard("a", reviewCard("2024-01-01"));
+			const expected = new FSRS().next(reviewCard("2024-01-01"), now, Rating.Good);
+
+			const result = await service.review("a", Rating.Good, now);
+
+			expect(result).toEqual(expected);
+			expect(await store.getCard("a")).toEqual(expected.card);
+			expect(await store.getReviewLogs({ cardId: "a" })).toEqual([
+				{ cardId: "a", reviewLog: expected.reviewLog },
+			]);
+		});
+
+		it("should apply concurrent reviews of a card one after another", async () => {
+			await store.putCard("a", new FSRS().createEmptyCard(now));
+
+			await Promise.all([
+				service.review("a", Rating.Good, now),
+				service.review("a", Rating.Good, new Date("2024-01-01T00:10:00.000Z")),
+			]);
+
+			expect((await store.getCard("a"))?.reps).toBe(2);
+			expect(await store.getReviewLogs({ cardId: "a" })).toHaveLength(2);
+		});
+
+		it("should reject unknown cards without saving anything", async () => {
+			await expect(service.review("missing", Rating.Good, now)).rejects.toThrow(
+				'Card not found: "missing"'
+			);
+			expect(await store.getReviewLogs()).toEqual([]);
+		});
+
+		it("should save nothing when the store fails", async () => {
+			await store.putCard("a", reviewCard("2024-01-01"));
+			jest.spyOn(store, "saveReview").mockRejectedValueOnce(new Error("disk full"));
+
+			await expect(service.review("a", Rating.Good, now)).rejects.toThrow("disk full");
+			expect(await store.getCard("a")).toEqual(reviewCard("2024-01-01"));
+
+			await service.review("a", Rating.Good, now);
+			expect((await store.getCard("a"))?.reps).toBe(4);
+		});
+	});
+
+	describe("getDue", () => {
+		it("should return due studied cards using the scheduler's day boundaries", async () => {
+			service = new ReviewService(store, new FSRS({ timezone: "UTC", dayRolloverHour: 4 }));
+			await store.putCard("new", new FSRS().createEmptyCard(now));
+			await store.putCard("tonight", reviewCard("2024-01-01T20:00:00.000Z"));
+			await store.putCard("overdue", reviewCard("2023-12-30T00:00:00.000Z"));
+			await store.putCard("tomorrow", reviewCard("2024-01-02T12:00:00.000Z"));
+
+			const due = await service.getDue(new Date("2024-01-01T10:00:00.000Z"));
+
+			expect(due.map(({ id }) => id)).toEqual(["overdue", "tonight"]);
+			expect(await service.getDue(new Date("2024-01-01T10:00:00.000Z"), 1)).toHaveLength(1);
+		});
+	});
+});
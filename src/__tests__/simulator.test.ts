@@ -0,0 +1,104 @@
+import { FSRS } from "../fsrs";
+import { simulateWorkload } from "../simulator";
+import { Card, State } from "../types";
+
+describe("simulateWorkload", () => {
+	const fsrs = new FSRS();
+	const startDate = new Date("2024-01-01T00:00:00.000Z");
+
+	const reviewCard = (dueInDays: number): Card => ({
+		due: new Date(startDate.getTime() + dueInDays * 24 * 60 * 60 * 1000),
+		stability: 10,
+		difficulty: 5,
+		elapsedDays: 10,
+		scheduledDays: 10,
+		reps: 3,
+		lapses: 0,
+		state: State.Review,
+		lastReview: new Date(startDate.getTime() - (10 - dueInDays) * 24 * 60 * 60 * 1000),
+	});
+
+	it("should produce one entry per forecast day", () => {
+		const forecast = simulateWorkload([], fsrs, { days: 30, startDate });
+
+		expect(forecast.days).toHaveLength(30);
+		expect(forecast.days[0].date).toEqual(startDate);
+		expect(forecast.days[29].date).toEqual(new Date("2024-01-30T00:00:00.000Z"));
+	});
+
+	it("should count cards due on the day they are due", () => {
+		const cards = [reviewCard(0), reviewCard(2), reviewCard(2)];
+		const forecast = simulateWorkload(cards, fsrs, { days: 3, startDate });
+
+		expect(forecast.days[0].dueCount).toBe(1);
+		expect(forecast.days[2].dueCount).toBe(2);
+		expect(forecast.days[1].reviewCount).toBe(0);
+	});
+
+	it("should introduce new cards up to the limit", () => {
+		const forecast = simulateWorkload([], fsrs, {
+			days: 10,
+			newCardsPerDay: 5,
+			newCardLimit: 12,
+			startDate,
+		});
+
+		expect(forecast.days.map((day) => day.newCount)).toEqual([5, 5, 2, 0, 0, 0, 0, 0, 0, 0]);
+		expect(forecast.cards).toHaveLength(12);
+	});
+
+	it("should introduce existing new cards first", () => {
+		const newCard = fsrs.createEmptyCard(startDate);
+		const forecast = simulateWorkload([newCard, newCard], fsrs, {
+			days: 1,
+			newCardsPerDay: 1,
+			startDate,
+		});
+
+		expect(forecast.cards.filter((card) => card.state === State.New)).toHaveLength(1);
+		expect(forecast.cards).toHaveLength(2);
+	});
+
+	it("should report time spent from the review costs", () => {
+		const costs = { again: 0, hard: 0, good: 0, easy: 0, learn: 30 };
+		const forecast = simulateWorkload([], fsrs, {
+			days: 1,
+			newCardsPerDay: 4,
+			costs,
+			startDate,
+		});
+
+		expect(forecast.days[0].timeSpent).toBe(120);
+		expect(forecast.totalTime).toBe(120);
+	});
+
+	it("should report expected retention of studied cards", () => {
+		const forecast = simulateWorkload([reviewCard(0)], fsrs, { days: 1, startDate });
+
+		expect(forecast.days[0].expectedRetention).toBeCloseTo(0.9, 5);
+	});
+
+	it("should not modify the input cards", () => {
+		const cards = [reviewCard(0)];
+		const snapshot = JSON.stringify(cards);
+
+		simulateWorkload(cards, fsrs, { days: 5, startDate });
+
+		expect(JSON.stringify(cards)).toBe(snapshot);
+	});
+
+	it("should be deterministic for the same seed", () => {
+		const options = { days: 30, newCardsPerDay: 5, startDate };
+
+		expect(simulateWorkload([], fsrs, options)).toEqual(simulateWorkload([], fsrs, options));
+	});
+
+	it("should reject invalid options", () => {
+		expect(() => simulateWorkload([], fsrs, { days: 0 })).toThrow(
+			"Invalid days: 0 must be a positive integer"
+		);
+		expect(() => simulateWorkload([], fsrs, { newCardsPerDay: -1 })).toThrow(
+			"Invalid newCardsPerDay: -1 cannot be negative"
+		);
+	});
+});
@@ -1,5 +1,6 @@
 import { CardValidator } from "../../utils/cardValidator";
-import { RawCardData, State } from "../../types";
+import { FSRS } from "../../fsrs";
+import { RawCardData, RawCardMapping, Rating, State } from "../../types";
 
 describe("CardValidator", () => {
 	describe("validateAndConvert", () => {
@@ -119,6 +120,56 @@ describe("CardValidator", () => {
 			expect(card.lastReview).toBeUndefined();
 		});
 
+		it("should accept the empty memory state of new cards", () => {
+			const rawCard: RawCardData = {
+				...validRawCard,
+				state: "NEW",
+				stability: 0,
+				difficulty: 0,
+				reps: 0,
+				lastReview: undefined,
+			};
+
+			const card = CardValidator.validateAndConvert(rawCard);
+
+			expect(card.stability).toBe(0);
+			expect(card.difficulty).toBe(0);
+			expect(() =>
+				CardValidator.validateAndConvert({ ...rawCard, state: "REVIEW", reps: 1 })
+			).toThrow("Invalid stability: 0 must be between 0.1 and Infinity");
+		});
+
+		it("should keep the learning step of (re)learning cards", () => {
+			const rawCard: RawCardData = { ...validRawCard, state: "LEARNING", learningStep: "1" };
+
+			expect(CardValidator.validateAndConvert(rawCard).learningStep).toBe(1);
+			expect(CardValidator.validateAndConvert({ ...rawCard, learningStep: "" })).not.toHaveProperty(
+				"learningStep"
+			);
+			expect(() => CardValidator.validateAndConvert({ ...rawCard, learningStep: -1 })).toThrow(
+				"Invalid learningStep: -1 must be between 0 and Infinity"
+			);
+			expect(() => CardValidator.validateAndConvert({ ...rawCard, state: "REVIEW" })).toThrow(
+				"Only Learning and Relearning cards can have a learningStep"
+			);
+		});
+
+		it("should accept new cards that kept their counters through a reset", () => {
+			const fsrs = new FSRS();
+			const now = new Date("2024-02-01T00:00:00.000Z");
+			const { card } = fsrs.next(fsrs.createEmptyCard(now), now, Rating.Again);
+			const reset = fsrs.forget(card, now).card;
+
+			const converted = CardValidator.validateAndConvert({
+				...reset,
+				state: "NEW",
+				lastReview: undefined,
+			});
+
+			expect(converted).toEqual(reset);
+			expect(converted.reps).toBe(1);
+		});
+
 		it("should handle null lastReview", () => {
 			const rawCard: RawCardData = {
 				...validRawCard,
@@ -251,18 +302,6 @@ describe("CardValidator", () => {
 			});
 
 			it("should throw error for invalid card states", () => {
-				// New card with reps > 0
-				const rawCard1: RawCardData = {
-					...validRawCard,
-					state: "NEW",
-					reps: 1,
-					lastReview: undefined,
-				};
-
-				expect(() => CardValidator.validateAndConvert(rawCard1)).toThrow(
-					"New cards should have 0 reps"
-				);
-
 				// New card with lastReview
 				const rawCard2: RawCardData = {
 					...validRawCard,
@@ -416,4 +455,244 @@ describe("CardValidator", () => {
 			).toBe(false);
 		});
 	});
+
+	describe("field mapping", () => {
+		const postgresRow = {
+			id: 7,
+			card_id: "c-7",
+			due: 1721947956294,
+			stability: 5.8,
+			difficulty: 3.99,
+			elapsed_days: 0,
+			scheduled_days: 6,
+			reps: 1,
+			lapses: 0,
+			state: 2,
+			last_review: "1721429556294",
+		};
+
+		const mapping: RawCardMapping = {
+			fields: {
+				cardId: "card_id",
+				elapsedDays: "elapsed_days",
+				scheduledDays: ["scheduled_days", "scheduledDays"],
+				lastReview: "last_review",
+			},
+			stateCodes: { 0: State.New, 1: State.Learning, 2: State.Review, 3: State.Relearning },
+			timestampUnit: "milliseconds",
+		};
+
+		it("should convert snake_case rows with numeric states and epoch timestamps", () => {
+			const card = CardValidator.validateAndConvert(postgresRow, mapping);
+
+			expect(card.state).toBe(State.Review);
+			expect(card.due.toISOString()).toBe("2024-07-25T22:52:36.294Z");
+			expect(card.lastReview?.toISOString()).toBe("2024-07-19T22:52:36.294Z");
+			expect(card.scheduledDays).toBe(6);
+		});
+
+		it("should fall back to the RawCardData field names", () => {
+			const raw = CardValidator.applyMapping(
+				{ ...postgresRow, elapsed_days: undefined, elapsedDays: 2 },
+				mapping
+			);
+
+			expect(raw.elapsedDays).toBe(2);
+			expect(raw.cardId).toBe("c-7");
+			expect(raw.state).toBe("REVIEW");
+		});
+
+		it("should read timestamps in seconds", () => {
+			const card = CardValidator.validateAndConvert(
+				{ ...postgresRow, due: 1721947956, last_review: 1721429556 },
+				{ ...mapping, timestampUnit: "seconds" }
+			);
+
+			expect(card.due.toISOString()).toBe("2024-07-25T22:52:36.000Z");
+		});
+
+		it("should reject state codes missing from the table", () => {
+			expect(() => CardValidator.validateAndConvert({ ...postgresRow, state: 9 }, mapping)).toThrow(
+				'Invalid state: "9". Must be one of: 0, 1, 2, 3'
+			);
+		});
+
+		it("should reject numeric dates without a timestamp unit", () => {
+			expect(() =>
+				CardValidator.validateAndConvert(postgresRow, { ...mapping, timestampUnit: undefined })
+			).toThrow("Invalid due: must be a Date or string, got number");
+		});
+
+		it("should apply the mapping to every row of a batch", () => {
+			const { valid, errors } = CardValidator.validateAndConvertBatch(
+				[postgresRow, { ...postgresRow, state: 9 }],
+				mapping
+			);
+
+			expect(valid).toHaveLength(1);
+			expect(errors[0].index).toBe(1);
+			expect(errors[0].data).toEqual({ ...postgresRow, state: 9 });
+		});
+	});
+
+	describe("repair", () => {
+		const legacyCard: RawCardData = {
+			due: "2024-01-10T00:00:00.000Z",
+			stability: 5.8,
+			difficulty: 3.99,
+			elapsedDays: 4,
+			scheduledDays: 6,
+			reps: 3,
+			lapses: 1,
+			state: "REVIEW",
+			lastReview: "2024-01-04T00:00:00.000Z",
+		};
+
+		it("should return valid cards unchanged with no fixes", () => {
+			const { card, fixes } = CardValidator.repair(legacyCard);
+
+			expect(fixes).toEqual([]);
+			expect(card).toEqual(CardValidator.validateAndConvert(legacyCard));
+		});
+
+		it("should keep learning steps and drop them from other states", () => {
+			const learning = { ...legacyCard, state: "RELEARNING", learningStep: 0 };
+			expect(CardValidator.repair(learning).card.learningStep).toBe(0);
+
+			const { card, fixes } = CardValidator.repair({ ...legacyCard, learningStep: 2 });
+			expect(card).not.toHaveProperty("learningStep");
+			expect(fixes).toEqual([
+				{
+					field: "learningStep",
+					from: 2,
+					to: undefined,
+					reason: "Only Learning and Relearning cards can have a learningStep",
+				},
+			]);
+		});
+
+		it("should raise reps to lapses", () => {
+			const { card, fixes } = CardValidator.repair({ ...legacyCard, reps: 1, lapses: 3 });
+
+			expect(card.reps).toBe(3);
+			expect(fixes).toEqual([
+				{ field: "reps", from: 1, to: 3, reason: "Lapses cannot be greater than reps" },
+			]);
+		});
+
+		it("should infer a missing lastReview from due - scheduledDays", () => {
+			const { card, fixes } = CardValidator.repair({ ...legacyCard, lastReview: null });
+
+			expect(card.lastReview).toEqual(new Date("2024-01-04T00:00:00.000Z"));
+			expect(fixes).toHaveLength(1);
+			expect(fixes[0]).toMatchObject({ field: "lastReview", from: null });
+		});
+
+		it("should clamp difficulty and stability into range", () => {
+			const { card, fixes } = CardValidator.repair({
+				...legacyCard,
+				difficulty: 12.5,
+				stability: 0.01,
+				elapsedDays: -2,
+			});
+
+			expect(card.difficulty).toBe(10);
+			expect(card.stability).toBe(0.1);
+			expect(card.elapsedDays).toBe(0);
+			expect(fixes.map((fix) => fix.field)).toEqual(["difficulty", "stability", "elapsedDays"]);
+		});
+
+		it("should round reps and lapses into non-negative integers", () => {
+			const { card, fixes } = CardValidator.repair({ ...legacyCard, reps: 2.6, lapses: -1 });
+
+			expect(card.reps).toBe(3);
+			expect(card.lapses).toBe(0);
+			expect(fixes.map(({ field, from, to }) => ({ field, from, to }))).toEqual([
+				{ field: "reps", from: 2.6, to: 3 },
+				{ field: "lapses", from: -1, to: 0 },
+			]);
+		});
+
+		it("should demote New cards with review history to empty New cards", () => {
+			const { card, fixes } = CardValidator.repair({ ...legacyCard, state: "NEW" });
+
+			expect(card).toMatchObject({
+				state: State.New,
+				stability: 0,
+				difficulty: 0,
+				reps: 0,
+				lapses: 0,
+				lastReview: undefined,
+			});
+			expect(fixes.map((fix) => fix.field)).toEqual([
+				"stability",
+				"difficulty",
+				"elapsedDays",
+				"scheduledDays",
+				"reps",
+				"lapses",
+				"lastReview",
+			]);
+		});
+
+		it("should keep the counters of reset New cards", () => {
+			const { card, fixes } = CardValidator.repair({
+				...legacyCard,
+				state: "NEW",
+				stability: 0,
+				difficulty: 0,
+				elapsedDays: 0,
+				scheduledDays: 0,
+				lastReview: undefined,
+			});
+
+			expect(fixes).toEqual([]);
+			expect(card).toMatchObject({ state: State.New, reps: 3, lapses: 1 });
+		});
+
+		it("should keep the empty memory state of New cards", () => {
+			const { fixes } = CardValidator.repair({
+				...legacyCard,
+				state: "NEW",
+				stability: 0,
+				difficulty: 0,
+				elapsedDays: 0,
+				scheduledDays: 0,
+				reps: 0,
+				lapses: 0,
+				lastReview: undefined,
+			});
+
+			expect(fixes).toEqual([]);
+		});
+
+		it("should still throw for data it cannot repair", () => {
+			expect(() => CardValidator.repair({ ...legacyCard, due: "someday" })).toThrow(
+				'Invalid due: "someday" is not a valid date'
+			);
+			expect(() => CardValidator.repair({ ...legacyCard, state: "LOST" })).toThrow(
+				'Invalid state: "LOST"'
+			);
+		});
+
+		it("should repair batches and report what could not be repaired", () => {
+			const { repaired, errors } = CardValidator.repairBatch([
+				legacyCard,
+				{ ...legacyCard, lapses: 5 },
+				{ ...legacyCard, stability: "n/a" },
+			]);
+
+			expect(repaired.map(({ index, fixes }) => [index, fixes.length])).toEqual([
+				[0, 0],
+				[1, 1],
+			]);
+			expect(errors).toEqual([
+				{
+					index: 2,
+					error: 'Invalid stability: "n/a" is not a valid number',
+					data: { ...legacyCard, stability: "n/a" },
+				},
+			]);
+		});
+	});
 });
@@ -0,0 +1,55 @@
+import { DelimitedLineParser, formatDelimitedField, parseDelimited } from "../../utils/csv";
+
+describe("csv", () => {
+	describe("parseDelimited", () => {
+		test("splits comma-separated rows and records their line numbers", () => {
+			expect(parseDelimited("a,b\n1,2\n\n3,4\n")).toEqual([
+				{ line: 1, fields: ["a", "b"] },
+				{ line: 2, fields: ["1", "2"] },
+				{ line: 4, fields: ["3", "4"] },
+			]);
+		});
+
+		test("detects tab-separated input", () => {
+			expect(parseDelimited("a\tb,c\r\n1\t2")).toEqual([
+				{ line: 1, fields: ["a", "b,c"] },
+				{ line: 2, fields: ["1", "2"] },
+			]);
+		});
+
+		test("handles quoted fields with delimiters, quotes and newlines", () => {
+			const rows = parseDelimited('id,note\n1,"one, ""two""\nthree"\n2,plain');
+
+			expect(rows[1]).toEqual({ line: 2, fields: ["1", 'one, "two"\nthree'] });
+			expect(rows[2]).toEqual({ line: 4, fields: ["2", "plain"] });
+		});
+
+		test("throws for an unterminated quote", () => {
+			expect(() => parseDelimited('a,b\n1,"open')).toThrow(
+				"Unterminated quoted field starting on line 2"
+			);
+		});
+	});
+
+	describe("DelimitedLineParser", () => {
+		test("returns each row once its last line has been pushed", () => {
+			const parser = new DelimitedLineParser();
+
+			expect(parser.push("id,note")).toEqual({ line: 1, fields: ["id", "note"] });
+			expect(parser.push('1,"two')).toBeUndefined();
+			expect(parser.push('lines"')).toEqual({ line: 2, fields: ["1", "two\nlines"] });
+			expect(parser.push("")).toBeUndefined();
+			expect(parser.push('2,"open')).toBeUndefined();
+			expect(() => parser.end()).toThrow("Unterminated quoted field starting on line 5");
+		});
+	});
+
+	describe("formatDelimitedField", () => {
+		test("quotes only when needed", () => {
+			expect(formatDelimitedField("plain")).toBe("plain");
+			expect(formatDelimitedField("a,b")).toBe('"a,b"');
+			expect(formatDelimitedField('say "hi"')).toBe('"say ""hi"""');
+			expect(formatDelimitedField("a\tb", "\t")).toBe('"a\tb"');
+		});
+	});
+});
@@ -0,0 +1,51 @@
+import { createSeededRandom, getFuzzRange } from "../../utils/fuzz";
+
+describe("fuzz", () => {
+	describe("getFuzzRange", () => {
+		test("widens the range as the interval grows", () => {
+			const short = getFuzzRange(5, 0, 36500);
+			const long = getFuzzRange(100, 0, 36500);
+
+			expect(short.maxInterval - short.minInterval).toBeLessThan(
+				long.maxInterval - long.minInterval
+			);
+		});
+
+		test("matches the standard FSRS ranges", () => {
+			// delta = 1 + 0.15 * 4.5 + 0.1 * 13 + 0.05 * 80 = 6.975
+			expect(getFuzzRange(100, 0, 36500)).toEqual({ minInterval: 93, maxInterval: 107 });
+		});
+
+		test("never exceeds the maximum interval", () => {
+			expect(getFuzzRange(100, 0, 100).maxInterval).toBe(100);
+			expect(getFuzzRange(500, 0, 100).minInterval).toBeLessThanOrEqual(100);
+		});
+
+		test("never schedules on or before the elapsed days", () => {
+			expect(getFuzzRange(10, 9, 36500).minInterval).toBe(10);
+		});
+	});
+
+	describe("createSeededRandom", () => {
+		test("produces the same sequence for the same seed", () => {
+			const a = createSeededRandom("seed");
+			const b = createSeededRandom("seed");
+
+			expect([a(), a(), a()]).toEqual([b(), b(), b()]);
+		});
+
+		test("produces different sequences for different seeds", () => {
+			expect(createSeededRandom("a")()).not.toBe(createSeededRandom("b")());
+		});
+
+		test("returns numbers in [0, 1)", () => {
+			const random = createSeededRandom("range");
+
+			for (let i = 0; i < 1000; i++) {
+				const value = random();
+				expect(value).toBeGreaterThanOrEqual(0);
+				expect(value).toBeLessThan(1);
+			}
+		});
+	});
+});
@@ -0,0 +1,142 @@
+import { getAlgorithmSpec } from "../../algorithms";
+import { AlgorithmVersion } from "../../types";
+import { ParameterValidator } from "../../utils/parameterValidator";
+
+describe("ParameterValidator", () => {
+	const fsrs5Weights = [...getAlgorithmSpec(AlgorithmVersion.FSRS5).defaultWeights];
+
+	describe("validate", () => {
+		it("should accept the default weights of every version", () => {
+			Object.values(AlgorithmVersion).forEach((algorithmVersion) => {
+				const w = [...getAlgorithmSpec(algorithmVersion).defaultWeights];
+
+				expect(ParameterValidator.validate({ algorithmVersion, w }).w).toEqual(w);
+			});
+		});
+
+		it("should accept 19 FSRS-4.5 weights without bounds for the unused ones", () => {
+			const w = [...getAlgorithmSpec(AlgorithmVersion.FSRS4_5).defaultWeights, 0.5, 0.5];
+
+			expect(ParameterValidator.validate({ w }).w).toEqual(w);
+			expect(() => ParameterValidator.validate({ w: [...w.slice(0, 18), -1] })).toThrow(
+				"Invalid w[18]: -1 cannot be negative"
+			);
+		});
+
+		it("should only check the fields that are present", () => {
+			expect(ParameterValidator.validate({})).toEqual({});
+			expect(ParameterValidator.validate({ requestRetention: 0.85 })).toEqual({
+				requestRetention: 0.85,
+			});
+		});
+
+		it("should reject a weight count that does not match the version", () => {
+			expect(() =>
+				ParameterValidator.validate({ algorithmVersion: AlgorithmVersion.FSRS6, w: fsrs5Weights })
+			).toThrow("FSRS-6 requires 21 weights, got 19");
+		});
+
+		it("should reject weights outside the optimizer bounds", () => {
+			const w = [...fsrs5Weights];
+			w[7] = 1;
+
+			expect(() =>
+				ParameterValidator.validate({ algorithmVersion: AlgorithmVersion.FSRS5, w })
+			).toThrow("Invalid w[7]: 1 must be between 0.001 and 0.75");
+		});
+
+		it("should reject weights that are not finite numbers", () => {
+			const w = [...fsrs5Weights];
+			w[3] = NaN;
+
+			expect(() =>
+				ParameterValidator.validate({ algorithmVersion: AlgorithmVersion.FSRS5, w })
+			).toThrow("Invalid w[3]: NaN is not a finite number");
+		});
+
+		it("should only reject negative weights when bounds are not checked", () => {
+			const w = [...fsrs5Weights];
+			w[7] = 1;
+
+			expect(
+				ParameterValidator.validate(
+					{ algorithmVersion: AlgorithmVersion.FSRS5, w },
+					{ checkWeightBounds: false }
+				).w
+			).toEqual(w);
+
+			w[7] = -1;
+			expect(() =>
+				ParameterValidator.validate(
+					{ algorithmVersion: AlgorithmVersion.FSRS5, w },
+					{ checkWeightBounds: false }
+				)
+			).toThrow("Invalid w[7]: -1 cannot be negative");
+
+			w[7] = 0;
+			w[0] = 0;
+			expect(() =>
+				ParameterValidator.validate(
+					{ algorithmVersion: AlgorithmVersion.FSRS5, w },
+					{ checkWeightBounds: false }
+				)
+			).toThrow("Invalid w[0]: 0 must be greater than 0");
+		});
+
+		it("should reject out-of-range retention and intervals", () => {
+			expect(() => ParameterValidator.validate({ requestRetention: 1.5 })).toThrow(
+				"Invalid requestRetention: 1.5 must be between 0.01 and 0.99"
+			);
+			expect(() => ParameterValidator.validate({ maximumInterval: 0 })).toThrow(
+				"Invalid maximumInterval: 0 must be between 1 and 36500"
+			);
+			expect(() => ParameterValidator.validate({ maximumInterval: 10.5 })).toThrow(
+				"Invalid maximumInterval: 10.5 must be an integer"
+			);
+		});
+
+		it("should clamp out-of-range values when asked", () => {
+			const w = [...fsrs5Weights];
+			w[7] = 1;
+			w[0] = -3;
+
+			const result = ParameterValidator.validate(
+				{
+					algorithmVersion: AlgorithmVersion.FSRS5,
+					w,
+					requestRetention: 1.5,
+					maximumInterval: 99999.4,
+					easyDays: [-1, 1, 1, 1, 1, 1, 2],
+				},
+				{ clamp: true }
+			);
+
+			expect(result.w![0]).toBe(0.01);
+			expect(result.w![7]).toBe(0.75);
+			expect(result.w!.slice(8)).toEqual(fsrs5Weights.slice(8));
+			expect(result.requestRetention).toBe(0.99);
+			expect(result.maximumInterval).toBe(36500);
+			expect(result.easyDays).toEqual([0, 1, 1, 1, 1, 1, 1]);
+		});
+
+		it("should still throw for values that cannot be clamped", () => {
+			expect(() => ParameterValidator.validate({ w: [1, 2, 3] }, { clamp: true })).toThrow(
+				"FSRS-4 requires 17 or 19 weights, got 3"
+			);
+			expect(() =>
+				ParameterValidator.validate({ learningSteps: ["soon"] }, { clamp: true })
+			).toThrow('Invalid step: "soon"');
+			expect(() => ParameterValidator.validate({ timezone: "Nowhere" }, { clamp: true })).toThrow(
+				'Invalid timezone: "Nowhere"'
+			);
+		});
+
+		it("should not modify the given parameters", () => {
+			const parameters = { requestRetention: 1.5 };
+
+			ParameterValidator.validate(parameters, { clamp: true });
+
+			expect(parameters.requestRetention).toBe(1.5);
+		});
+	});
+});
@@ -1,4 +1,13 @@
-import { calcElapsedDays, isValidDate } from "../../utils/timeFuncs";
+import {
+	calcElapsedDays,
+	formatDayKey,
+	formatDayNumber,
+	getDayNumber,
+	getStartOfDay,
+	isValidDate,
+	isValidTimeZone,
+	parseStepMinutes,
+} from "../../utils/timeFuncs";
 
 describe("timeFuncs", () => {
 	describe("isValidDate", () => {
@@ -161,6 +170,14 @@ describe("timeFuncs", () => {
 			expect(calcElapsedDays(lastReviewDate, now)).toBe(1);
 		});
 
+		test("returns fractional days when requested", () => {
+			const now = new Date("2023-01-02T18:00:00Z");
+			const lastReviewDate = new Date("2023-01-01T12:00:00Z");
+
+			expect(calcElapsedDays(lastReviewDate, now, true)).toBe(1.25);
+			expect(calcElapsedDays(now, lastReviewDate, true)).toBe(0);
+		});
+
 		test("does not log warning for valid dates", () => {
 			const now = new Date("2023-01-10T12:00:00Z");
 			const validDate = new Date("2023-01-05T12:00:00Z");
@@ -170,4 +187,91 @@ describe("timeFuncs", () => {
 			expect(mockConsoleWarn).not.toHaveBeenCalled();
 		});
 	});
+
+	describe("parseStepMinutes", () => {
+		test("parses each supported unit into minutes", () => {
+			expect(parseStepMinutes("30s")).toBe(0.5);
+			expect(parseStepMinutes("10m")).toBe(10);
+			expect(parseStepMinutes("1h")).toBe(60);
+			expect(parseStepMinutes("2d")).toBe(2880);
+			expect(parseStepMinutes("1.5H")).toBe(90);
+		});
+
+		test("throws for malformed steps", () => {
+			expect(() => parseStepMinutes("10")).toThrow('Invalid step: "10"');
+			expect(() => parseStepMinutes("-1m")).toThrow('Invalid step: "-1m"');
+			expect(() => parseStepMinutes("0m")).toThrow('Invalid step: "0m"');
+		});
+	});
+
+	describe("formatDayKey", () => {
+		test("formats the local calendar day", () => {
+			expect(formatDayKey(new Date(2024, 0, 5, 23, 59))).toBe("2024-01-05");
+			expect(formatDayKey(new Date(2024, 11, 31, 0, 0))).toBe("2024-12-31");
+		});
+
+		test("formats the learner day in a time zone with a rollover hour", () => {
+			// 03:00 in New York, before a 4 a.m. rollover, still counts as the previous day.
+			expect(formatDayKey(new Date("2024-01-10T08:00:00Z"), "America/New_York", 4)).toBe(
+				"2024-01-09"
+			);
+			expect(formatDayKey(new Date("2024-01-10T09:00:00Z"), "America/New_York", 4)).toBe(
+				"2024-01-10"
+			);
+			expect(formatDayKey(new Date("2024-01-10T23:30:00Z"), "Asia/Tokyo")).toBe("2024-01-11");
+		});
+	});
+
+	describe("formatDayNumber", () => {
+		test("formats the same key as formatDayKey", () => {
+			const date = new Date("2024-01-10T08:00:00Z");
+
+			expect(formatDayNumber(0)).toBe("1970-01-01");
+			expect(formatDayNumber(getDayNumber(date, "America/New_York", 4))).toBe(
+				formatDayKey(date, "America/New_York", 4)
+			);
+			expect(formatDayNumber(getDayNumber(date))).toBe(formatDayKey(date));
+		});
+	});
+
+	describe("getDayNumber", () => {
+		test("counts days since 1970-01-01 in the given time zone", () => {
+			expect(getDayNumber(new Date("1970-01-01T12:00:00Z"), "UTC")).toBe(0);
+			expect(getDayNumber(new Date("1970-01-02T03:00:00Z"), "UTC", 4)).toBe(0);
+			expect(getDayNumber(new Date("1970-01-02T04:00:00Z"), "UTC", 4)).toBe(1);
+		});
+	});
+
+	describe("getStartOfDay", () => {
+		test("returns the rollover hour in the given time zone", () => {
+			const day = getDayNumber(new Date("2024-01-10T12:00:00Z"), "UTC");
+
+			expect(getStartOfDay(day, "America/New_York", 4).toISOString()).toBe(
+				"2024-01-10T09:00:00.000Z"
+			);
+		});
+
+		test("follows daylight saving time changes", () => {
+			const day = getDayNumber(new Date("2024-03-10T12:00:00Z"), "UTC");
+
+			expect(getStartOfDay(day, "America/New_York", 4).toISOString()).toBe(
+				"2024-03-10T08:00:00.000Z"
+			);
+		});
+
+		test("is the inverse of getDayNumber", () => {
+			const start = getStartOfDay(19800, "Europe/Berlin", 4);
+
+			expect(getDayNumber(start, "Europe/Berlin", 4)).toBe(19800);
+			expect(getDayNumber(new Date(start.getTime() - 1), "Europe/Berlin", 4)).toBe(19799);
+		});
+	});
+
+	describe("isValidTimeZone", () => {
+		test("accepts IANA names and rejects unknown zones", () => {
+			expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+			expect(isValidTimeZone("UTC")).toBe(true);
+			expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+		});
+	});
 });
@@ -0,0 +1,186 @@
+import { AlgorithmVersion } from "./types";
+
+export interface AlgorithmSpec {
+	version: AlgorithmVersion;
+	defaultWeights: number[];
+	weightCounts: number[]; // Accepted lengths for the `w` array
+	weightBounds: Array<[number, number]>; // [min, max] per weight, as clipped by the official optimizer
+}
+
+// Default parameters of this library's original FSRS-4 scheduler.
+const FSRS4_WEIGHTS = [
+	// w[0]: Initial stability for Again
+	0.4,
+	// w[1]: Initial stability for Hard
+	0.6,
+	// w[2]: Initial stability for Good
+	2.4,
+	// w[3]: Initial stability for Easy
+	5.8,
+	// w[4]: Initial difficulty for Good
+	4.93,
+	// w[5]: Difficulty change factor
+	0.94,
+	// w[6]: Difficulty change factor
+	0.86,
+	// w[7]: Mean reversion weight for difficulty
+	0.01,
+	// w[8]: Stability increase factor
+	1.49,
+	// w[9]: Stability exponent
+	0.14,
+	// w[10]: Stability factor for memory retrieval
+	0.94,
+	// w[11]: Stability factor for forgotten cards
+	2.18,
+	// w[12]: Difficulty exponent for forgotten cards
+	0.05,
+	// w[13]: Stability exponent for forgotten cards
+	0.34,
+	// w[14]: Retrieval exponent for forgotten cards
+	1.26,
+	// w[15]: Penalty factor for "Hard" rating
+	0.29,
+	// w[16]: Bonus factor for "Easy" rating
+	2.61,
+];
+
+// Default FSRS-4.5 parameters. w[0]-w[16] keep their FSRS-4 meaning.
+const FSRS4_5_WEIGHTS = [
+	0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072,
+	0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+// Default FSRS-5 parameters. w[0]-w[16] keep their FSRS-4 meaning.
+const FSRS5_WEIGHTS = [
+	0.40255, 1.18385, 3.173, 15.69105, 7.1949, 0.5345, 1.4604, 0.0046, 1.54575, 0.1192, 1.01925,
+	1.9395, 0.11, 0.29605, 2.2698, 0.2315, 2.9898,
+	// w[17]: Short-term stability factor for same-day reviews
+	0.51655,
+	// w[18]: Short-term stability rating offset
+	0.6621,
+];
+
+// Default FSRS-6 parameters. w[0]-w[18] keep their FSRS-5 meaning.
+const FSRS6_WEIGHTS = [
+	0.212, 1.2931, 2.3065, 8.2956, 6.4133, 0.8334, 3.0194, 0.001, 1.8722, 0.1666, 0.796, 1.4835,
+	0.0614, 0.2629, 1.6483, 0.6014, 1.8729, 0.5425, 0.0912,
+	// w[19]: Short-term stability saturation exponent
+	0.0658,
+	// w[20]: Forgetting curve decay
+	0.1542,
+];
+
+// FSRS-4 and FSRS-4.5 share their formulas, and so their bounds.
+const FSRS4_BOUNDS: Array<[number, number]> = [
+	[0.1, 100],
+	[0.1, 100],
+	[0.1, 100],
+	[0.1, 100],
+	[1, 10],
+	[0.1, 5],
+	[0.1, 5],
+	[0, 0.75],
+	[0, 4],
+	[0, 0.8],
+	[0.01, 3],
+	[0.5, 5],
+	[0.01, 0.2],
+	[0.01, 0.9],
+	[0.01, 3],
+	[0, 1],
+	[1, 6],
+];
+
+const FSRS5_BOUNDS: Array<[number, number]> = [
+	[0.01, 100],
+	[0.01, 100],
+	[0.01, 100],
+	[0.01, 100],
+	[1, 10],
+	[0.001, 4],
+	[0.001, 4],
+	[0.001, 0.75],
+	[0, 4.5],
+	[0, 0.8],
+	[0.001, 3.5],
+	[0.001, 5],
+	[0.001, 0.25],
+	[0.001, 0.9],
+	[0, 4],
+	[0, 1],
+	[1, 6],
+	[0, 2],
+	[0, 2],
+];
+
+const FSRS6_BOUNDS: Array<[number, number]> = [...FSRS5_BOUNDS, [0, 0.8], [0.1, 0.8]];
+
+export const ALGORITHM_SPECS: Record<AlgorithmVersion, AlgorithmSpec> = {
+	[AlgorithmVersion.FSRS4]: {
+		version: AlgorithmVersion.FSRS4,
+		defaultWeights: FSRS4_WEIGHTS,
+		// 19 weights are accepted for compatibility with FSRS-5 sized arrays; w[17] and w[18] are unused.
+		weightCounts: [17, 19],
+		weightBounds: FSRS4_BOUNDS,
+	},
+	[AlgorithmVersion.FSRS4_5]: {
+		version: AlgorithmVersion.FSRS4_5,
+		defaultWeights: FSRS4_5_WEIGHTS,
+		weightCounts: [17, 19],
+		weightBounds: FSRS4_BOUNDS,
+	},
+	[AlgorithmVersion.FSRS5]: {
+		version: AlgorithmVersion.FSRS5,
+		defaultWeights: FSRS5_WEIGHTS,
+		weightCounts: [19],
+		weightBounds: FSRS5_BOUNDS,
+	},
+	[AlgorithmVersion.FSRS6]: {
+		version: AlgorithmVersion.FSRS6,
+		defaultWeights: FSRS6_WEIGHTS,
+		weightCounts: [21],
+		weightBounds: FSRS6_BOUNDS,
+	},
+};
+
+/**
+ * Looks up the specification for an algorithm version.
+ * @param version The algorithm version.
+ * @returns The default weights, accepted weight counts and weight bounds.
+ * @throws Error if the version is unknown.
+ */
+export function getAlgorithmSpec(version: AlgorithmVersion): AlgorithmSpec {
+	const spec = ALGORITHM_SPECS[version];
+
+	if (!spec) {
+		const validVersions = Object.values(AlgorithmVersion).join(", ");
+		throw new Error(`Invalid algorithmVersion: "${version}". Must be one of: ${validVersions}`);
+	}
+
+	return spec;
+}
+
+/**
+ * Returns the forgetting curve shape R(t) = (1 + factor * t / S) ^ decay for a version.
+ * @param version The algorithm version.
+ * @param w The weights in use (FSRS-6 reads its decay from w[20]).
+ * @returns The decay exponent and the factor that makes R(S) = 0.9.
+ */
+export function getForgettingCurve(
+	version: AlgorithmVersion,
+	w: number[]
+): { decay: number; factor: number } {
+	switch (version) {
+		case AlgorithmVersion.FSRS6: {
+			const decay = -w[20];
+			return { decay, factor: Math.pow(0.9, 1 / decay) - 1 };
+		}
+		case AlgorithmVersion.FSRS4_5:
+		case AlgorithmVersion.FSRS5:
+			return { decay: -0.5, factor: 19 / 81 };
+		default:
+			// FSRS-4: R = 1 / (1 + t / (9 * S)).
+			return { decay: -1, factor: 1 / 9 };
+	}
+}
@@ -0,0 +1,203 @@
+import { FSRS } from "./fsrs";
+import {
+	CalibrationBin,
+	Card,
+	DriftPeriod,
+	IntervalRetention,
+	MemoryDrift,
+	PassRate,
+	Rating,
+	RatingShare,
+	ReviewAnalytics,
+	ReviewAnalyticsOptions,
+	ReviewLog,
+	State,
+} from "./types";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const DEFAULT_INTERVAL_BUCKETS = [1, 3, 7, 14, 30, 90, 180, 365];
+
+/**
+ * Summarizes review history to show whether the scheduler reaches its request retention.
+ * Each review log describes the card before the review, so the state, stability and
+ * difficulty are the ones the rating was given for.
+ * @param reviewLogs Review logs of any number of cards, in any order.
+ * @param fsrs The scheduler whose forgetting curve predicts retrievability, defaults to FSRS defaults.
+ * @param options Interval buckets, calibration bins and drift period length.
+ * @returns Retention, lapse, rating, drift and calibration statistics.
+ */
+export function analyzeReviewLogs(
+	reviewLogs: ReviewLog[],
+	fsrs: FSRS = new FSRS(),
+	options?: ReviewAnalyticsOptions
+): ReviewAnalytics {
+	const intervalBuckets = options?.intervalBuckets ?? DEFAULT_INTERVAL_BUCKETS;
+	const calibrationBins = options?.calibrationBins ?? 10;
+	const driftPeriodDays = options?.driftPeriodDays ?? 30;
+
+	if (intervalBuckets.some((edge, i) => !(edge > (i === 0 ? 0 : intervalBuckets[i - 1])))) {
+		throw new Error("Invalid intervalBuckets: edges must be positive and ascending");
+	}
+	if (!Number.isInteger(calibrationBins) || calibrationBins < 1) {
+		throw new Error(`Invalid calibrationBins: ${calibrationBins} must be a positive integer`);
+	}
+	if (!(driftPeriodDays > 0)) {
+		throw new Error(`Invalid driftPeriodDays: ${driftPeriodDays} must be greater than 0`);
+	}
+
+	const reviews = reviewLogs
+		.filter((log) => log.rating !== Rating.Manual)
+		.sort((a, b) => a.review.getTime() - b.review.getTime());
+	const scheduled = reviews.filter((log) => log.state === State.Review);
+	const requestRetention = fsrs.getParameters().requestRetention;
+
+	const trueRetention = passRate(scheduled);
+	const lapseCount = scheduled.length - trueRetention.passed;
+	const { calibration, calibrationError } = calibrate(reviews, fsrs, calibrationBins);
+
+	return {
+		reviewCount: reviews.length,
+		requestRetention,
+		trueRetention,
+		retentionGap:
+			trueRetention.rate === undefined ? undefined : trueRetention.rate - requestRetention,
+		retentionByInterval: retentionByInterval(scheduled, intervalBuckets),
+		retentionByState: {
+			[State.New]: passRate(reviews.filter((log) => log.state === State.New)),
+			[State.Learning]: passRate(reviews.filter((log) => log.state === State.Learning)),
+			[State.Review]: trueRetention,
+			[State.Relearning]: passRate(reviews.filter((log) => log.state === State.Relearning)),
+		},
+		lapseCount,
+		lapseRate: trueRetention.count === 0 ? undefined : lapseCount / trueRetention.count,
+		ratingDistribution: [Rating.Again, Rating.Hard, Rating.Good, Rating.Easy].map(
+			(rating): RatingShare => {
+				const count = reviews.filter((log) => log.rating === rating).length;
+				return { rating, count, share: reviews.length === 0 ? undefined : count / reviews.length };
+			}
+		),
+		drift: memoryDrift(reviews, driftPeriodDays),
+		calibration,
+		calibrationError,
+	};
+}
+
+function passRate(reviews: ReviewLog[]): PassRate {
+	const passed = reviews.filter((log) => log.rating !== Rating.Again).length;
+	return {
+		count: reviews.length,
+		passed,
+		rate: reviews.length === 0 ? undefined : passed / reviews.length,
+	};
+}
+
+function retentionByInterval(reviews: ReviewLog[], edges: number[]): IntervalRetention[] {
+	return [0, ...edges].map((minDays, i) => {
+		const maxDays = edges[i] as number | undefined;
+		const inBucket = reviews.filter(
+			(log) => log.elapsedDays >= minDays && (maxDays === undefined || log.elapsedDays < maxDays)
+		);
+		return { minDays, maxDays, ...passRate(inBucket) };
+	});
+}
+
+/**
+ * Groups the memory state of studied cards into fixed-length periods to show whether
+ * difficulty and stability trend up or down over time.
+ */
+function memoryDrift(reviews: ReviewLog[], periodDays: number): MemoryDrift {
+	const periodMs = periodDays * DAY_MS;
+	const periods = new Map<number, ReviewLog[]>();
+
+	reviews
+		.filter((log) => log.state !== State.New)
+		.forEach((log) => {
+			const start = Math.floor(log.review.getTime() / periodMs) * periodMs;
+			const period = periods.get(start);
+			if (period) period.push(log);
+			else periods.set(start, [log]);
+		});
+
+	const summaries = Array.from(periods, ([start, logs]): DriftPeriod => {
+		const average = (value: (log: ReviewLog) => number) =>
+			logs.reduce((sum, log) => sum + value(log), 0) / logs.length;
+		return {
+			start: new Date(start),
+			count: logs.length,
+			averageDifficulty: average((log) => log.difficulty),
+			averageStability: average((log) => log.stability),
+		};
+	});
+
+	if (summaries.length < 2) return { periods: summaries };
+
+	const first = summaries[0];
+	const last = summaries[summaries.length - 1];
+	return {
+		periods: summaries,
+		difficultyChange: last.averageDifficulty - first.averageDifficulty,
+		stabilityChange: last.averageStability - first.averageStability,
+	};
+}
+
+/**
+ * Bins reviews by the retrievability the scheduler predicted for them and compares
+ * each bin with the share of those reviews that were actually recalled.
+ */
+function calibrate(
+	reviews: ReviewLog[],
+	fsrs: FSRS,
+	binCount: number
+): { calibration: CalibrationBin[]; calibrationError?: number } {
+	const bins = Array.from({ length: binCount }, () => ({ predicted: 0, recalled: 0, count: 0 }));
+
+	reviews.forEach((log) => {
+		const predicted = predictRetrievability(log, fsrs);
+		if (predicted === undefined) return;
+
+		const bin = bins[Math.min(Math.floor(predicted * binCount), binCount - 1)];
+		bin.count += 1;
+		bin.predicted += predicted;
+		if (log.rating !== Rating.Again) bin.recalled += 1;
+	});
+
+	let totalCount = 0;
+	let totalError = 0;
+
+	const calibration = bins.map(({ predicted, recalled, count }, i): CalibrationBin => {
+		const bin: CalibrationBin = {
+			minPredicted: i / binCount,
+			maxPredicted: (i + 1) / binCount,
+			count,
+		};
+		if (count > 0) {
+			bin.averagePredicted = predicted / count;
+			bin.actualRecall = recalled / count;
+			totalCount += count;
+			totalError += Math.abs(bin.averagePredicted - bin.actualRecall) * count;
+		}
+		return bin;
+	});
+
+	return { calibration, calibrationError: totalCount === 0 ? undefined : totalError / totalCount };
+}
+
+function predictRetrievability(log: ReviewLog, fsrs: FSRS): number | undefined {
+	if (log.state === State.New || !(log.stability > 0)) return undefined;
+
+	const lastReview = log.lastReview ?? new Date(log.review.getTime() - log.elapsedDays * DAY_MS);
+	const card: Card = {
+		due: log.due,
+		stability: log.stability,
+		difficulty: log.difficulty,
+		elapsedDays: log.lastElapsedDays,
+		scheduledDays: log.scheduledDays,
+		reps: log.reps ?? 0,
+		lapses: log.lapses ?? 0,
+		state: log.state,
+		lastReview,
+	};
+
+	return fsrs.getRetrievability(card, log.review);
+}
@@ -0,0 +1,232 @@
+import { FSRS } from "./fsrs";
+import {
+	AnkiImportedCard,
+	AnkiImportResult,
+	Rating,
+	ReviewHistoryEntry,
+	SkippedRow,
+	State,
+} from "./types";
+import { DelimitedRow, parseDelimited } from "./utils/csv";
+
+// Anki's revlog.type values.
+const ANKI_LEARN = 0;
+const ANKI_REVIEW = 1;
+const ANKI_RELEARN = 2;
+const ANKI_FILTERED = 3;
+const ANKI_MANUAL = 4;
+
+// Column order of a raw revlog export without a header row.
+const ANKI_COLUMNS = ["id", "cid", "usn", "ease", "ivl", "lastivl", "factor", "time", "type"];
+
+// Accepted header names per field, compared lowercased with spaces and underscores removed.
+const COLUMN_ALIASES = {
+	cardId: ["cid", "cardid"],
+	review: ["id", "reviewtime", "reviewtimestamp", "timestamp"],
+	button: ["button", "ease"],
+	interval: ["ivl", "interval"],
+	factor: ["factor", "easefactor", "ease"],
+	type: ["type", "reviewtype"],
+};
+
+type Column = keyof typeof COLUMN_ALIASES;
+
+interface AnkiReview {
+	row: number;
+	cardId: string;
+	review: Date;
+	button: number;
+	interval: number;
+	factor?: number; // Undefined when the export has no ease factor column
+	type: number;
+}
+
+/**
+ * Imports an Anki review log export and rebuilds each card's memory state.
+ * The export may have a header row (e.g. `cid,id,ease,ivl,factor,type` or
+ * `card id,review timestamp,button,interval,ease,type`) or be a raw revlog dump in
+ * Anki's column order. Timestamps are epoch milliseconds, like Anki's revlog id.
+ * @param text CSV or TSV contents.
+ * @param fsrs The scheduler used to replay the reviews, configure its steps like the Anki deck.
+ * @returns The imported cards, ordered by card id, and the rows that were skipped.
+ * @throws Error if the header lacks a required column.
+ */
+export function importAnkiRevlog(text: string, fsrs: FSRS = new FSRS()): AnkiImportResult {
+	const rows = parseDelimited(text);
+	const skipped: SkippedRow[] = [];
+
+	if (rows.length === 0) return { cards: [], skipped };
+
+	const hasHeader = rows[0].fields.some((field) => isNaN(Number(field)));
+	const columns = resolveColumns(
+		hasHeader ? rows[0].fields : ANKI_COLUMNS.slice(0, rows[0].fields.length)
+	);
+
+	const byCard = new Map<string, AnkiReview[]>();
+	(hasHeader ? rows.slice(1) : rows).forEach((row) => {
+		try {
+			const review = parseRow(row, columns);
+			const reason = getSkipReason(review);
+			if (reason) {
+				skipped.push({ row: row.line, reason });
+				return;
+			}
+
+			const reviews = byCard.get(review.cardId) ?? [];
+			reviews.push(review);
+			byCard.set(review.cardId, reviews);
+		} catch (error) {
+			skipped.push({
+				row: row.line,
+				reason: error instanceof Error ? error.message : "Unknown error",
+			});
+		}
+	});
+
+	const cards: AnkiImportedCard[] = [];
+	Array.from(byCard.keys())
+		.sort()
+		.forEach((cardId) => {
+			// Sorting is stable, so reviews with equal timestamps keep their file order.
+			const reviews = byCard.get(cardId)!.sort((a, b) => a.review.getTime() - b.review.getTime());
+			const history: ReviewHistoryEntry[] = reviews.map((review) => ({
+				rating: review.button === 0 ? Rating.Manual : (review.button as Rating),
+				review: review.review,
+			}));
+
+			try {
+				const { card, reviewLogs } = fsrs.replay(history);
+				let studied = false;
+				reviewLogs.forEach((log, i) => {
+					const type = reviews[i].type;
+					if (type === ANKI_MANUAL) {
+						studied = false;
+						return;
+					}
+					log.state = mapAnkiType(type, studied);
+					studied = true;
+				});
+				cards.push({ cardId, card, reviewLogs });
+			} catch (error) {
+				const reason = error instanceof Error ? error.message : "Unknown error";
+				reviews.forEach((review) => skipped.push({ row: review.row, reason }));
+			}
+		});
+
+	skipped.sort((a, b) => a.row - b.row);
+	return { cards, skipped };
+}
+
+/**
+ * Maps an Anki review type onto the state the card was in before the review.
+ * @param type Anki's revlog type: 0 learn, 1 review, 2 relearn, 3 filtered.
+ * @param studied Whether the card was reviewed before (a first learn is State.New).
+ */
+export function mapAnkiType(type: number, studied: boolean): State {
+	switch (type) {
+		case ANKI_LEARN:
+			return studied ? State.Learning : State.New;
+		case ANKI_RELEARN:
+			return State.Relearning;
+		case ANKI_REVIEW:
+		case ANKI_FILTERED:
+			return State.Review;
+		default:
+			throw new Error(`Invalid type: ${type}. Must be one of: 0, 1, 2, 3, 4`);
+	}
+}
+
+// Finds the column index of every field. Anki calls the button "ease", while descriptive
+// exports use "button" and "ease" for the ease factor, so "ease" means the button only
+// when there is no "button" column. The ease factor is optional.
+function resolveColumns(header: string[]): Record<Column, number> {
+	const names = header.map((name) => name.toLowerCase().replace(/[\s_]/g, ""));
+	const hasButton = names.includes("button");
+
+	const find = (aliases: string[]) =>
+		aliases.map((alias) => names.indexOf(alias)).find((index) => index !== -1) ?? -1;
+
+	const columns: Record<Column, number> = {
+		cardId: find(COLUMN_ALIASES.cardId),
+		review: find(COLUMN_ALIASES.review),
+		button: find(hasButton ? ["button"] : ["ease"]),
+		interval: find(COLUMN_ALIASES.interval),
+		factor: find(hasButton ? COLUMN_ALIASES.factor : ["factor", "easefactor"]),
+		type: find(COLUMN_ALIASES.type),
+	};
+
+	(["cardId", "review", "button", "interval", "type"] as Column[]).forEach((column) => {
+		if (columns[column] === -1) {
+			throw new Error(
+				`Missing column: ${column}. Expected one of: ${COLUMN_ALIASES[column].join(", ")}`
+			);
+		}
+	});
+
+	return columns;
+}
+
+function parseRow(row: DelimitedRow, columns: Record<Column, number>): AnkiReview {
+	const field = (column: Column) =>
+		columns[column] >= 0 ? row.fields[columns[column]] : undefined;
+
+	const cardId = field("cardId")?.trim();
+	if (!cardId) throw new Error("Missing card id");
+
+	return {
+		row: row.line,
+		cardId,
+		review: parseTimestamp(field("review")),
+		button: parseInteger(field("button"), "button"),
+		interval: parseInteger(field("interval"), "interval"),
+		factor: field("factor") === undefined ? undefined : parseInteger(field("factor"), "ease"),
+		type: parseInteger(field("type"), "type"),
+	};
+}
+
+// Returns why a review cannot be imported, or undefined if it can.
+function getSkipReason(review: AnkiReview): string | undefined {
+	if (review.type < ANKI_LEARN || review.type > ANKI_MANUAL) {
+		return `Unknown review type: ${review.type}`;
+	}
+
+	if (review.button < 0 || review.button > 4) {
+		return `Invalid button: ${review.button} must be between 0 and 4`;
+	}
+
+	if (review.button === 0 || review.type === ANKI_MANUAL) {
+		// A manual entry with interval 0 is "Forget"; others only moved the due date.
+		if (review.type === ANKI_MANUAL && review.button === 0 && review.interval === 0) {
+			return undefined;
+		}
+		return "Manual rescheduling is not a review";
+	}
+
+	// Previews are only recognisable by their zero ease factor, so without one they import.
+	if (review.type === ANKI_FILTERED && review.factor === 0) {
+		return "Filtered deck preview without rescheduling";
+	}
+
+	return undefined;
+}
+
+function parseTimestamp(value: string | undefined): Date {
+	const trimmed = value?.trim() ?? "";
+	const date = /^\d+$/.test(trimmed) ? new Date(Number(trimmed)) : new Date(trimmed);
+
+	if (!trimmed || isNaN(date.getTime())) {
+		throw new Error(`Invalid review timestamp: "${value ?? ""}"`);
+	}
+
+	return date;
+}
+
+function parseInteger(value: string | undefined, fieldName: string): number {
+	const num = Number(value?.trim());
+
+	if (value === undefined || value.trim() === "" || !Number.isInteger(num)) {
+		throw new Error(`Invalid ${fieldName}: "${value ?? ""}" is not an integer`);
+	}
+
+	return num;
+}
@@ -0,0 +1,337 @@
+import { promises as fs } from "fs";
+import {
+	Card,
+	CardStore,
+	CardStoreFormat,
+	DeckEntry,
+	FileCardStoreOptions,
+	ReviewLog,
+	ReviewLogQuery,
+	State,
+	StoredReviewLog,
+} from "./types";
+import {
+	SCHEMA_VERSION,
+	parseCard,
+	parseReviewLog,
+	serializeCard,
+	serializeReviewLog,
+} from "./codec";
+
+// Reference CardStore that keeps everything in memory. Cards and logs are copied
+// on the way in and out, so callers cannot change stored data by accident.
+export class MemoryCardStore implements CardStore {
+	private cards: Map<string, Card> = new Map();
+	private reviewLogs: StoredReviewLog[] = [];
+
+	async getCard(id: string): Promise<Card | undefined> {
+		const card = this.cards.get(id);
+		return card ? copyCard(card) : undefined;
+	}
+
+	async getCards(): Promise<DeckEntry[]> {
+		return Array.from(this.cards, ([id, card]) => ({ id, card: copyCard(card) }));
+	}
+
+	async putCard(id: string, card: Card): Promise<void> {
+		if (!id) throw new Error("Card id cannot be empty");
+		this.cards.set(id, copyCard(card));
+	}
+
+	async appendReviewLog(cardId: string, reviewLog: ReviewLog): Promise<void> {
+		if (!cardId) throw new Error("Card id cannot be empty");
+		this.reviewLogs.push({ cardId, reviewLog: copyReviewLog(reviewLog) });
+	}
+
+	async saveReview(cardId: string, card: Card, reviewLog: ReviewLog): Promise<void> {
+		await this.putCard(cardId, card);
+		await this.appendReviewLog(cardId, reviewLog);
+	}
+
+	/**
+	 * Returns stored review logs, oldest review first.
+	 * @param query Optional card id and review date range, both ends inclusive.
+	 */
+	async getReviewLogs(query: ReviewLogQuery = {}): Promise<StoredReviewLog[]> {
+		const since = query.since?.getTime() ?? -Infinity;
+		const until = query.until?.getTime() ?? Infinity;
+
+		return this.reviewLogs
+			.filter(({ cardId, reviewLog }) => {
+				const time = reviewLog.review.getTime();
+				return (
+					(query.cardId === undefined || cardId === query.cardId) && time >= since && time <= until
+				);
+			})
+			.sort((a, b) => a.reviewLog.review.getTime() - b.reviewLog.review.getTime())
+			.map(({ cardId, reviewLog }) => ({ cardId, reviewLog: copyReviewLog(reviewLog) }));
+	}
+
+	/**
+	 * Returns studied cards whose due date is at or before `until`, most overdue first.
+	 * @param until The latest due date to include.
+	 * @param limit Maximum number of cards to return.
+	 */
+	async getDueCards(until: Date, limit?: number): Promise<DeckEntry[]> {
+		const due = (await this.getCards())
+			.filter(({ card }) => card.state !== State.New && card.due.getTime() <= until.getTime())
+			.sort((a, b) => a.card.due.getTime() - b.card.due.getTime());
+
+		return limit === undefined ? due : due.slice(0, limit);
+	}
+}
+
+/**
+ * CardStore backed by a single file, read on first use and cached in memory.
+ *
+ * "json" files hold one document that is rewritten through a temporary file and a
+ * rename on every change. "ndjson" files are append-only, one record per line, and
+ * `saveReview` writes the card and its log as a single line so a crash cannot leave
+ * one without the other. A missing file is an empty store.
+ */
+export class FileCardStore implements CardStore {
+	readonly path: string;
+	readonly format: CardStoreFormat;
+	private cache?: Promise<MemoryCardStore>;
+	private writes: Promise<void> = Promise.resolve();
+	private appendPrefix = "";
+	private truncateAt?: number;
+
+	constructor(path: string, options: FileCardStoreOptions = {}) {
+		if (!path) throw new Error("File path cannot be empty");
+		this.path = path;
+		this.format = options.format ?? (/\.(ndjson|jsonl)$/i.test(path) ? "ndjson" : "json");
+
+		if (this.format !== "json" && this.format !== "ndjson") {
+			throw new Error(`Invalid format: "${this.format}". Must be one of: json, ndjson`);
+		}
+	}
+
+	async getCard(id: string): Promise<Card | undefined> {
+		return (await this.load()).getCard(id);
+	}
+
+	async getCards(): Promise<DeckEntry[]> {
+		return (await this.load()).getCards();
+	}
+
+	async putCard(id: string, card: Card): Promise<void> {
+		if (!id) throw new Error("Card id cannot be empty");
+		await this.write({ type: "card", id, card: serializeCard(card) }, (store) =>
+			store.putCard(id, card)
+		);
+	}
+
+	async appendReviewLog(cardId: string, reviewLog: ReviewLog): Promise<void> {
+		if (!cardId) throw new Error("Card id cannot be empty");
+		await this.write(
+			{ type: "reviewLog", cardId, reviewLog: serializeReviewLog(reviewLog) },
+			(store) => store.appendReviewLog(cardId, reviewLog)
+		);
+	}
+
+	async saveReview(cardId: string, card: Card, reviewLog: ReviewLog): Promise<void> {
+		if (!cardId) throw new Error("Card id cannot be empty");
+		const record = {
+			type: "review",
+			cardId,
+			card: serializeCard(card),
+			reviewLog: serializeReviewLog(reviewLog),
+		};
+		await this.write(record, (store) => store.saveReview(cardId, card, reviewLog));
+	}
+
+	async getReviewLogs(query?: ReviewLogQuery): Promise<StoredReviewLog[]> {
+		return (await this.load()).getReviewLogs(query);
+	}
+
+	async getDueCards(until: Date, limit?: number): Promise<DeckEntry[]> {
+		return (await this.load()).getDueCards(until, limit);
+	}
+
+	/**
+	 * Persists one change, then applies it to the cache. Writes run one at a time,
+	 * so a failed write leaves both the file and the cache unchanged.
+	 */
+	private write(record: Record<string, unknown>, apply: (store: MemoryCardStore) => Promise<void>) {
+		const run = async () => {
+			const store = await this.load();
+
+			if (this.format === "ndjson") {
+				if (this.truncateAt !== undefined) {
+					await fs.truncate(this.path, this.truncateAt);
+					this.truncateAt = undefined;
+				}
+				await fs.appendFile(this.path, this.appendPrefix + JSON.stringify(record) + "\n", "utf8");
+				this.appendPrefix = "";
+				await apply(store);
+				return;
+			}
+
+			const next = await copyStore(store);
+			await apply(next);
+			await this.writeDocument(next);
+			await apply(store);
+		};
+
+		const result = this.writes.then(run);
+		this.writes = result.catch(() => undefined);
+		return result;
+	}
+
+	private async writeDocument(store: MemoryCardStore): Promise<void> {
+		const cards: Record<string, unknown> = {};
+		(await store.getCards()).forEach(({ id, card }) => {
+			cards[id] = serializeCard(card);
+		});
+		const reviewLogs = (await store.getReviewLogs()).map(({ cardId, reviewLog }) => ({
+			cardId,
+			...serializeReviewLog(reviewLog),
+		}));
+
+		const document = { schemaVersion: SCHEMA_VERSION, cards, reviewLogs };
+		const tempPath = `${this.path}.${process.pid}.tmp`;
+		await fs.writeFile(tempPath, JSON.stringify(document, null, 2) + "\n", "utf8");
+		await fs.rename(tempPath, this.path);
+	}
+
+	private load(): Promise<MemoryCardStore> {
+		if (!this.cache) {
+			this.cache = this.readFile();
+			// Let a later call retry if the file could not be read.
+			this.cache.catch(() => {
+				this.cache = undefined;
+			});
+		}
+		return this.cache;
+	}
+
+	/**
+	 * A crash during an append can leave a partial last line, whose record was never saved.
+	 * It is dropped here and cut off before the next append, which must start on a new line.
+	 */
+	private checkLastLine(text: string): string {
+		const end = text.lastIndexOf("\n") + 1;
+		const tail = text.slice(end).trim();
+		if (tail === "") return text;
+
+		try {
+			JSON.parse(tail);
+			this.appendPrefix = "\n";
+			return text;
+		} catch {
+			this.truncateAt = Buffer.byteLength(text.slice(0, end), "utf8");
+			return text.slice(0, end);
+		}
+	}
+
+	private async readFile(): Promise<MemoryCardStore> {
+		let text: string;
+		try {
+			text = await fs.readFile(this.path, "utf8");
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") return new MemoryCardStore();
+			throw error;
+		}
+
+		if (this.format === "ndjson") {
+			text = this.checkLastLine(text);
+		}
+
+		try {
+			return this.format === "ndjson" ? await readRecords(text) : await readDocument(text);
+		} catch (error) {
+			throw new Error(`Invalid card store file ${this.path}: ${(error as Error).message}`);
+		}
+	}
+}
+
+async function readDocument(text: string): Promise<MemoryCardStore> {
+	const store = new MemoryCardStore();
+	if (text.trim() === "") return store;
+
+	const document = JSON.parse(text);
+	if (!document || typeof document !== "object" || Array.isArray(document)) {
+		throw new Error("expected a JSON object");
+	}
+	if (typeof document.schemaVersion === "number" && document.schemaVersion > SCHEMA_VERSION) {
+		throw new Error(
+			`Unsupported schemaVersion: ${document.schemaVersion}. This library reads up to ${SCHEMA_VERSION}`
+		);
+	}
+
+	for (const [id, card] of Object.entries(document.cards ?? {})) {
+		await store.putCard(id, parseCard(card));
+	}
+	for (const { cardId, ...reviewLog } of document.reviewLogs ?? []) {
+		await store.appendReviewLog(String(cardId), parseReviewLog(reviewLog));
+	}
+
+	return store;
+}
+
+async function readRecords(text: string): Promise<MemoryCardStore> {
+	const store = new MemoryCardStore();
+	const lines = text.split("\n");
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i].trim();
+		if (line === "") continue;
+
+		try {
+			await applyRecord(store, JSON.parse(line));
+		} catch (error) {
+			throw new Error(`line ${i + 1}: ${(error as Error).message}`);
+		}
+	}
+
+	return store;
+}
+
+async function applyRecord(store: MemoryCardStore, record: Record<string, unknown>): Promise<void> {
+	switch (record?.type) {
+		case "card":
+			return store.putCard(String(record.id), parseCard(record.card));
+		case "reviewLog":
+			return store.appendReviewLog(String(record.cardId), parseReviewLog(record.reviewLog));
+		case "review":
+			return store.saveReview(
+				String(record.cardId),
+				parseCard(record.card),
+				parseReviewLog(record.reviewLog)
+			);
+		default:
+			throw new Error(
+				`Invalid record type: "${record?.type}". Must be one of: card, reviewLog, review`
+			);
+	}
+}
+
+async function copyStore(store: MemoryCardStore): Promise<MemoryCardStore> {
+	const copy = new MemoryCardStore();
+	for (const { id, card } of await store.getCards()) {
+		await copy.putCard(id, card);
+	}
+	for (const { cardId, reviewLog } of await store.getReviewLogs()) {
+		await copy.appendReviewLog(cardId, reviewLog);
+	}
+	return copy;
+}
+
+function copyCard(card: Card): Card {
+	return {
+		...card,
+		due: new Date(card.due),
+		lastReview: card.lastReview ? new Date(card.lastReview) : undefined,
+	};
+}
+
+function copyReviewLog(reviewLog: ReviewLog): ReviewLog {
+	const copy: ReviewLog = {
+		...reviewLog,
+		due: new Date(reviewLog.due),
+		review: new Date(reviewLog.review),
+	};
+	if (reviewLog.lastReview) copy.lastReview = new Date(reviewLog.lastReview);
+	return copy;
+}
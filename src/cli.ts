@@ -0,0 +1,522 @@
+#!/usr/bin/env node
+import { promises as fs } from "fs";
+import * as path from "path";
+import { analyzeReviewLogs } from "./analytics";
+import { FileCardStore, MemoryCardStore } from "./cardStore";
+import { parseParameters } from "./codec";
+import { cardsToCsv, readCardsCsv } from "./csvIO";
+import { FSRS } from "./fsrs";
+import { ReviewService } from "./reviewService";
+import { Card, CardStore, Rating, State } from "./types";
+import { CardValidator } from "./utils/cardValidator";
+import { isValidDate } from "./utils/timeFuncs";
+
+const USAGE = `Usage: fsrs <command> [arguments] --collection <file> [options]
+
+Commands:
+  due                  List studied cards that are due, most overdue first
+  review <id> <rating> Apply a rating (again, hard, good, easy or 1-4) and save the card
+  preview <id>         Show the outcome of each rating without saving anything
+  stats                Summarize card states, retrievability and retention
+  validate             Check every card and report the invalid ones
+
+Options:
+  -c, --collection <file>  Cards as a .json or .ndjson card store, or a .csv file from cardsToCsv
+                           (whose review logs are kept in <name>.reviews.ndjson)
+  -p, --params <file>      JSON file with FSRS parameters, as written by serializeParameters
+  --now <date>             Date to use instead of the current time
+  --limit <n>              Maximum number of due cards to list
+  -h, --help               Show this help`;
+
+const RATING_NAMES: Record<string, Rating> = {
+	again: Rating.Again,
+	hard: Rating.Hard,
+	good: Rating.Good,
+	easy: Rating.Easy,
+};
+
+// Number of positional arguments after each command name.
+const COMMAND_ARGUMENTS: Record<string, number> = {
+	due: 0,
+	review: 2,
+	preview: 1,
+	stats: 0,
+	validate: 0,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CliOptions {
+	positional: string[];
+	collection?: string;
+	params?: string;
+	now: Date;
+	limit?: number;
+	help: boolean;
+}
+
+// Where command output goes; tests capture it instead of printing.
+interface CliOutput {
+	out: (line: string) => void;
+	err: (line: string) => void;
+}
+
+/**
+ * Runs the `fsrs` command line tool.
+ * @param args The arguments after the program name, e.g. `["due", "-c", "cards.json"]`.
+ * @param output Where to write results and errors, defaults to the console.
+ * @returns The exit code: 0 on success, 1 on errors or invalid cards, 2 on usage errors.
+ *   Without a command, or with `--help`, the usage is printed.
+ */
+export async function runCli(
+	args: string[],
+	output: CliOutput = { out: console.log, err: console.error }
+): Promise<number> {
+	let options: CliOptions;
+	try {
+		options = parseArgs(args);
+	} catch (error) {
+		output.err(`${(error as Error).message}\n\n${USAGE}`);
+		return 2;
+	}
+
+	const [command] = options.positional;
+	if (options.help || !options.collection) {
+		output.out(USAGE);
+		return 0;
+	}
+
+	try {
+		const fsrs = options.params ? await loadScheduler(options.params) : new FSRS();
+
+		switch (command) {
+			case "due":
+				return await listDue(await openCollection(options.collection), fsrs, options, output);
+			case "review":
+				return await review(await openCollection(options.collection), fsrs, options, output);
+			case "preview":
+				return await preview(await openCollection(options.collection), fsrs, options, output);
+			case "stats":
+				return await stats(await openCollection(options.collection), fsrs, options, output);
+			default:
+				return await validate(options.collection, output);
+		}
+	} catch (error) {
+		output.err(`Error: ${(error as Error).message}`);
+		return 1;
+	}
+}
+
+function parseArgs(args: string[]): CliOptions {
+	const options: CliOptions = { positional: [], now: new Date(), help: false };
+
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		const value = () => {
+			if (i + 1 >= args.length) throw new Error(`Missing value for ${arg}`);
+			return args[++i];
+		};
+
+		switch (arg) {
+			case "-c":
+			case "--collection":
+				options.collection = value();
+				break;
+			case "-p":
+			case "--params":
+				options.params = value();
+				break;
+			case "--now": {
+				const now = new Date(value());
+				if (!isValidDate(now)) throw new Error(`Invalid --now: "${args[i]}" is not a valid date`);
+				options.now = now;
+				break;
+			}
+			case "--limit": {
+				const limit = Number(value());
+				if (!Number.isInteger(limit) || limit < 1) {
+					throw new Error(`Invalid --limit: "${args[i]}" must be a positive integer`);
+				}
+				options.limit = limit;
+				break;
+			}
+			case "-h":
+			case "--help":
+				options.help = true;
+				break;
+			default:
+				if (arg.startsWith("-")) throw new Error(`Unknown option: ${arg}`);
+				options.positional.push(arg);
+		}
+	}
+
+	const [command, ...rest] = options.positional;
+	if (options.help || command === undefined) {
+		options.help = true;
+		return options;
+	}
+
+	if (!(command in COMMAND_ARGUMENTS)) {
+		throw new Error(
+			`Unknown command: "${command}". Must be one of: ${Object.keys(COMMAND_ARGUMENTS).join(", ")}`
+		);
+	}
+	if (rest.length !== COMMAND_ARGUMENTS[command]) {
+		throw new Error(
+			`"${command}" expects ${COMMAND_ARGUMENTS[command]} argument(s), got ${rest.length}`
+		);
+	}
+	if (!options.collection) throw new Error("Missing option: --collection <file>");
+
+	return options;
+}
+
+async function loadScheduler(file: string): Promise<FSRS> {
+	return new FSRS(parseParameters(await readText(file)));
+}
+
+/**
+ * Opens a collection file as a card store that saves its own changes. JSON and NDJSON
+ * files are card stores; CSV files are loaded into memory and rewritten in full on
+ * every card change.
+ */
+async function openCollection(file: string): Promise<CardStore> {
+	if (collectionFormat(file) !== "csv") {
+		await readText(file); // A typo in the path should not look like an empty collection.
+		return new FileCardStore(file);
+	}
+
+	const store = new MemoryCardStore();
+	for (const { row, data } of readCardsCsv(await readText(file))) {
+		const id = data.cardId ?? data.id;
+		if (!id) throw new Error(`Line ${row} has no id`);
+		if (await store.getCard(String(id))) throw new Error(`Line ${row} repeats id "${id}"`);
+
+		try {
+			await store.putCard(String(id), CardValidator.validateAndConvert(data));
+		} catch (error) {
+			throw new Error(
+				`Line ${row} (${id}): ${(error as Error).message}. Run "fsrs validate" for a full report`
+			);
+		}
+	}
+
+	// CSV files hold only cards, so review logs go to a card store next to the file.
+	return csvCollection(file, store, new FileCardStore(reviewLogPath(file)));
+}
+
+// Which kind of collection a file holds, by extension.
+function collectionFormat(file: string): "json" | "ndjson" | "csv" {
+	const extension = path.extname(file).toLowerCase();
+	if (extension === ".json") return "json";
+	if (extension === ".ndjson" || extension === ".jsonl") return "ndjson";
+	if (extension === ".csv") return "csv";
+	throw new Error(`Unsupported collection file: ${file}. Use a .json, .ndjson or .csv file`);
+}
+
+// Where the review logs of a CSV collection are kept, e.g. cards.csv -> cards.reviews.ndjson.
+function reviewLogPath(file: string): string {
+	return `${file.slice(0, -path.extname(file).length)}.reviews.ndjson`;
+}
+
+// A store whose cards live in `cards` and are written to the CSV `file` on every change,
+// and whose review logs live in `logs`. `saveReview` appends the log only once the CSV is
+// written, so a failed write keeps neither.
+function csvCollection(file: string, cards: MemoryCardStore, logs: CardStore): CardStore {
+	const putCard = async (id: string, card: Card) => {
+		const previous = await cards.getCard(id);
+		await cards.putCard(id, card);
+
+		try {
+			const entries = await cards.getCards();
+			const csv = cardsToCsv(
+				entries.map(({ card }) => card),
+				entries.map(({ id }) => id)
+			);
+			const tempPath = `${file}.${process.pid}.tmp`;
+			await fs.writeFile(tempPath, csv, "utf8");
+			await fs.rename(tempPath, file);
+		} catch (error) {
+			if (previous) await cards.putCard(id, previous);
+			throw error;
+		}
+	};
+
+	return {
+		getCard: (id) => cards.getCard(id),
+		getCards: () => cards.getCards(),
+		putCard,
+		getDueCards: (until, limit) => cards.getDueCards(until, limit),
+		appendReviewLog: (cardId, reviewLog) => logs.appendReviewLog(cardId, reviewLog),
+		getReviewLogs: (query) => logs.getReviewLogs(query),
+		saveReview: async (cardId, card, reviewLog) => {
+			await putCard(cardId, card);
+			await logs.appendReviewLog(cardId, reviewLog);
+		},
+	};
+}
+
+async function listDue(
+	collection: CardStore,
+	fsrs: FSRS,
+	options: CliOptions,
+	output: CliOutput
+): Promise<number> {
+	const due = await new ReviewService(collection, fsrs).getDue(options.now, options.limit);
+
+	if (due.length === 0) {
+		output.out("No cards are due");
+		return 0;
+	}
+
+	output.out(
+		formatTable([
+			["Id", "State", "Due", "Overdue"],
+			...due.map(({ id, card }) => [
+				id,
+				State[card.state],
+				card.due.toISOString(),
+				formatDuration(options.now.getTime() - card.due.getTime()),
+			]),
+		])
+	);
+	output.out(`${due.length} card(s) due`);
+	return 0;
+}
+
+async function review(
+	collection: CardStore,
+	fsrs: FSRS,
+	options: CliOptions,
+	output: CliOutput
+): Promise<number> {
+	const [id, ratingName] = options.positional.slice(1);
+	const rating = parseRating(ratingName);
+
+	const { card } = await new ReviewService(collection, fsrs).review(id, rating, options.now);
+
+	output.out(
+		`${id}: ${Rating[rating]}, next review ${card.due.toISOString()} ` +
+			`(in ${formatDuration(card.due.getTime() - options.now.getTime())}), ` +
+			`state ${State[card.state]}, stability ${card.stability.toFixed(2)}, ` +
+			`difficulty ${card.difficulty.toFixed(2)}`
+	);
+	return 0;
+}
+
+async function preview(
+	collection: CardStore,
+	fsrs: FSRS,
+	options: CliOptions,
+	output: CliOutput
+): Promise<number> {
+	const id = options.positional[1];
+	const card = await collection.getCard(id);
+	if (!card) throw new Error(`Card not found: "${id}"`);
+
+	const scheduled = fsrs.schedule(card, options.now);
+	const retrievability = fsrs.getRetrievability(card, options.now);
+
+	output.out(
+		`${id}: ${State[card.state]}, due ${card.due.toISOString()}` +
+			(retrievability === undefined ? "" : `, retrievability ${formatPercent(retrievability)}`)
+	);
+	output.out(
+		formatTable([
+			["Rating", "Interval", "Due", "State", "Stability", "Difficulty"],
+			...(["again", "hard", "good", "easy"] as const).map((key) => {
+				const next = scheduled[key].card;
+				return [
+					key[0].toUpperCase() + key.slice(1),
+					formatDuration(next.due.getTime() - options.now.getTime()),
+					next.due.toISOString(),
+					State[next.state],
+					next.stability.toFixed(2),
+					next.difficulty.toFixed(2),
+				];
+			}),
+		])
+	);
+	return 0;
+}
+
+async function stats(
+	collection: CardStore,
+	fsrs: FSRS,
+	options: CliOptions,
+	output: CliOutput
+): Promise<number> {
+	const entries = await collection.getCards();
+	const counts = [State.New, State.Learning, State.Review, State.Relearning].map(
+		(state) => [state, entries.filter(({ card }) => card.state === state).length] as const
+	);
+	const due = await new ReviewService(collection, fsrs).getDue(options.now);
+
+	output.out(`Cards: ${entries.length}`);
+	counts.forEach(([state, count]) => output.out(`  ${State[state]}: ${count}`));
+	output.out(`Due: ${due.length}`);
+
+	const retrievabilities = entries
+		.map(({ card }) => fsrs.getRetrievability(card, options.now))
+		.filter((value): value is number => value !== undefined);
+	if (retrievabilities.length > 0) {
+		const average =
+			retrievabilities.reduce((sum, value) => sum + value, 0) / retrievabilities.length;
+		output.out(
+			`Average retrievability: ${formatPercent(average)} over ${retrievabilities.length} studied card(s)`
+		);
+	}
+
+	const reviewLogs = await collection.getReviewLogs();
+	if (reviewLogs.length > 0) {
+		output.out(`Reviews: ${reviewLogs.length}`);
+
+		const { trueRetention, requestRetention } = analyzeReviewLogs(
+			reviewLogs.map(({ reviewLog }) => reviewLog),
+			fsrs
+		);
+		if (trueRetention.rate !== undefined) {
+			output.out(
+				`Retention: ${formatPercent(trueRetention.rate)} ` +
+					`(${trueRetention.passed} of ${trueRetention.count} review(s) recalled, ` +
+					`target ${formatPercent(requestRetention)})`
+			);
+		}
+	}
+
+	return 0;
+}
+
+/**
+ * Runs every card of the file through `CardValidator.validateAndConvertBatch` and
+ * reports each invalid one with its line (or position) and id.
+ */
+async function validate(file: string, output: CliOutput): Promise<number> {
+	collectionFormat(file); // Reject unsupported files before reading them.
+	const { rows, problems } = readRawCards(file, await readText(file));
+	const { valid, errors } = CardValidator.validateAndConvertBatch(rows.map(({ data }) => data));
+
+	const messages = [
+		...problems,
+		...errors.map(({ index, error }) => {
+			const { label, id } = rows[index];
+			return `${label}${id === undefined ? "" : ` (${id})`}: ${error}`;
+		}),
+	];
+
+	messages.forEach((message) => output.out(message));
+
+	const total = rows.length + problems.length;
+	if (messages.length === 0) {
+		output.out(`All ${total} card(s) are valid`);
+		return 0;
+	}
+
+	output.out(`${messages.length} of ${total} card(s) are invalid, ${valid.length} valid`);
+	return 1;
+}
+
+interface RawCardRow {
+	label: string; // Where the card was found, e.g. "line 3"
+	id?: string;
+	data: Record<string, unknown>;
+}
+
+/**
+ * Extracts the raw, unvalidated cards of a collection file. Lines that cannot be read
+ * as cards at all are returned as problems.
+ */
+function readRawCards(file: string, text: string): { rows: RawCardRow[]; problems: string[] } {
+	const format = collectionFormat(file);
+	const rows: RawCardRow[] = [];
+	const problems: string[] = [];
+
+	if (format === "csv") {
+		readCardsCsv(text).forEach(({ row, data }) => {
+			rows.push({ label: `line ${row}`, id: readId(data), data: { ...data } });
+		});
+		return { rows, problems };
+	}
+
+	if (format === "ndjson") {
+		text.split("\n").forEach((line, i) => {
+			if (line.trim() === "") return;
+			try {
+				const record = JSON.parse(line);
+				if (record?.card === undefined) return; // Review logs and other records
+				rows.push({ label: `line ${i + 1}`, id: readId(record), data: record.card });
+			} catch (error) {
+				problems.push(`line ${i + 1}: ${(error as Error).message}`);
+			}
+		});
+		return { rows, problems };
+	}
+
+	const document = JSON.parse(text);
+	if (Array.isArray(document)) {
+		document.forEach((data, i) => {
+			rows.push({ label: `card ${i + 1}`, id: readId(data), data });
+		});
+	} else if (document?.cards && typeof document.cards === "object") {
+		Object.entries(document.cards).forEach(([id, data]) => {
+			rows.push({ label: "card", id, data: data as Record<string, unknown> });
+		});
+	} else {
+		throw new Error(`${file} is neither a card store nor an array of cards`);
+	}
+
+	return { rows, problems };
+}
+
+function readId(data: any): string | undefined {
+	const id = data?.cardId ?? data?.id;
+	return id === undefined || id === null || id === "" ? undefined : String(id);
+}
+
+async function readText(file: string): Promise<string> {
+	try {
+		return await fs.readFile(file, "utf8");
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			throw new Error(`File not found: ${file}`);
+		}
+		throw error;
+	}
+}
+
+function parseRating(value: string): Rating {
+	const rating = RATING_NAMES[value.toLowerCase()] ?? Number(value);
+	if (![Rating.Again, Rating.Hard, Rating.Good, Rating.Easy].includes(rating)) {
+		throw new Error(`Invalid rating: "${value}". Must be one of: again, hard, good, easy (or 1-4)`);
+	}
+	return rating;
+}
+
+function formatDuration(ms: number): string {
+	const minutes = Math.round(Math.abs(ms) / 60000);
+	if (minutes < 60) return `${minutes}m`;
+	if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h`;
+	return `${Math.round(Math.abs(ms) / DAY_MS)}d`;
+}
+
+function formatPercent(value: number): string {
+	return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatTable(rows: string[][]): string {
+	const widths = rows[0].map((_, i) => Math.max(...rows.map((row) => row[i].length)));
+	return rows
+		.map((row) =>
+			row
+				.map((cell, i) => cell.padEnd(widths[i]))
+				.join("  ")
+				.trimEnd()
+		)
+		.join("\n");
+}
+
+if (require.main === module) {
+	runCli(process.argv.slice(2)).then((code) => {
+		process.exitCode = code;
+	});
+}
@@ -0,0 +1,317 @@
+import {
+	AlgorithmVersion,
+	Card,
+	FSRSParameters,
+	Rating,
+	ReviewLog,
+	SerializedCard,
+	SerializedParameters,
+	SerializedRating,
+	SerializedReviewLog,
+	SerializedState,
+	State,
+} from "./types";
+import { CardValidator } from "./utils/cardValidator";
+import { ParameterValidator } from "./utils/parameterValidator";
+import { isValidDate } from "./utils/timeFuncs";
+
+// Bump when the serialized shape changes, and teach the parsers to read older versions.
+export const SCHEMA_VERSION = 1;
+
+const STATE_NAMES: Record<State, SerializedState> = {
+	[State.New]: "NEW",
+	[State.Learning]: "LEARNING",
+	[State.Review]: "REVIEW",
+	[State.Relearning]: "RELEARNING",
+};
+
+const RATING_NAMES: Record<Rating, SerializedRating> = {
+	[Rating.Manual]: "MANUAL",
+	[Rating.Again]: "AGAIN",
+	[Rating.Hard]: "HARD",
+	[Rating.Good]: "GOOD",
+	[Rating.Easy]: "EASY",
+};
+
+const PARAMETER_KEYS: Array<keyof FSRSParameters> = [
+	"requestRetention",
+	"maximumInterval",
+	"w",
+	"algorithmVersion",
+	"learningSteps",
+	"relearningSteps",
+	"enableFuzz",
+	"enableLoadBalance",
+	"easyDays",
+	"timezone",
+	"dayRolloverHour",
+	"fractionalElapsedDays",
+];
+
+const BOOLEAN_PARAMETER_KEYS: Array<keyof FSRSParameters> = [
+	"enableFuzz",
+	"enableLoadBalance",
+	"fractionalElapsedDays",
+];
+
+/**
+ * Converts a card to its versioned JSON form.
+ * @param card The card to serialize.
+ * @returns A plain object that survives `JSON.stringify`.
+ */
+export function serializeCard(card: Card): SerializedCard {
+	const serialized: SerializedCard = {
+		schemaVersion: SCHEMA_VERSION,
+		due: card.due.toISOString(),
+		stability: card.stability,
+		difficulty: card.difficulty,
+		elapsedDays: card.elapsedDays,
+		scheduledDays: card.scheduledDays,
+		reps: card.reps,
+		lapses: card.lapses,
+		state: STATE_NAMES[card.state],
+		lastReview: card.lastReview ? card.lastReview.toISOString() : null,
+	};
+
+	if (card.learningStep !== undefined) serialized.learningStep = card.learningStep;
+	return serialized;
+}
+
+/**
+ * Parses a serialized card, validating every field.
+ * @param data A `SerializedCard` or its JSON string. States may be names or enum numbers.
+ * @returns The card.
+ * @throws Error if the data is not a valid card or uses a newer schema version.
+ */
+export function parseCard(data: unknown): Card {
+	const obj = readObject(data, "card");
+	const state = parseState(obj.state);
+
+	return CardValidator.validateAndConvert({
+		due: obj.due as string,
+		stability: obj.stability as number,
+		difficulty: obj.difficulty as number,
+		elapsedDays: obj.elapsedDays as number,
+		scheduledDays: obj.scheduledDays as number | undefined,
+		reps: obj.reps as number,
+		lapses: obj.lapses as number,
+		state: STATE_NAMES[state],
+		lastReview: obj.lastReview as string | null | undefined,
+		learningStep: obj.learningStep as number | undefined,
+	});
+}
+
+/**
+ * Converts a review log to its versioned JSON form.
+ * @param reviewLog The review log to serialize.
+ * @returns A plain object that survives `JSON.stringify`.
+ */
+export function serializeReviewLog(reviewLog: ReviewLog): SerializedReviewLog {
+	const serialized: SerializedReviewLog = {
+		schemaVersion: SCHEMA_VERSION,
+		rating: RATING_NAMES[reviewLog.rating],
+		state: STATE_NAMES[reviewLog.state],
+		due: reviewLog.due.toISOString(),
+		stability: reviewLog.stability,
+		difficulty: reviewLog.difficulty,
+		elapsedDays: reviewLog.elapsedDays,
+		lastElapsedDays: reviewLog.lastElapsedDays,
+		scheduledDays: reviewLog.scheduledDays,
+		review: reviewLog.review.toISOString(),
+	};
+
+	if (reviewLog.reps !== undefined) serialized.reps = reviewLog.reps;
+	if (reviewLog.lapses !== undefined) serialized.lapses = reviewLog.lapses;
+	if (reviewLog.reps !== undefined || reviewLog.lastReview !== undefined) {
+		serialized.lastReview = reviewLog.lastReview ? reviewLog.lastReview.toISOString() : null;
+	}
+	if (reviewLog.learningStep !== undefined) serialized.learningStep = reviewLog.learningStep;
+	if (reviewLog.resetCounts) serialized.resetCounts = true;
+
+	return serialized;
+}
+
+/**
+ * Parses a serialized review log, validating every field.
+ * @param data A `SerializedReviewLog` or its JSON string. Enums may be names or numbers.
+ * @returns The review log.
+ * @throws Error if the data is not a valid review log or uses a newer schema version.
+ */
+export function parseReviewLog(data: unknown): ReviewLog {
+	const obj = readObject(data, "review log");
+
+	const reviewLog: ReviewLog = {
+		rating: parseRating(obj.rating),
+		state: parseState(obj.state),
+		due: parseDate(obj.due, "due"),
+		stability: parseNumber(obj.stability, "stability"),
+		difficulty: parseNumber(obj.difficulty, "difficulty"),
+		elapsedDays: parseNumber(obj.elapsedDays, "elapsedDays"),
+		lastElapsedDays: parseNumber(obj.lastElapsedDays, "lastElapsedDays"),
+		scheduledDays: parseNumber(obj.scheduledDays, "scheduledDays"),
+		review: parseDate(obj.review, "review"),
+	};
+
+	if (obj.reps !== undefined) reviewLog.reps = parseInteger(obj.reps, "reps");
+	if (obj.lapses !== undefined) reviewLog.lapses = parseInteger(obj.lapses, "lapses");
+	if (obj.lastReview !== undefined && obj.lastReview !== null) {
+		reviewLog.lastReview = parseDate(obj.lastReview, "lastReview");
+	}
+	if (obj.learningStep !== undefined) {
+		reviewLog.learningStep = parseInteger(obj.learningStep, "learningStep");
+	}
+	if (obj.resetCounts !== undefined) {
+		if (typeof obj.resetCounts !== "boolean") {
+			throw new Error(`Invalid resetCounts: must be a boolean, got ${typeof obj.resetCounts}`);
+		}
+		if (obj.resetCounts) reviewLog.resetCounts = true;
+	}
+
+	return reviewLog;
+}
+
+/**
+ * Converts scheduler parameters to their versioned JSON form.
+ * @param parameters Full or partial parameters, e.g. from `FSRS.getParameters()`.
+ * @returns A plain object that survives `JSON.stringify`.
+ */
+export function serializeParameters(parameters: Partial<FSRSParameters>): SerializedParameters {
+	const serialized: SerializedParameters = { schemaVersion: SCHEMA_VERSION };
+
+	PARAMETER_KEYS.forEach((key) => {
+		const value = parameters[key];
+		if (value === undefined) return;
+		(serialized as Record<string, unknown>)[key] = Array.isArray(value) ? [...value] : value;
+	});
+
+	return serialized;
+}
+
+/**
+ * Parses serialized parameters and validates them like the FSRS constructor does.
+ * @param data A `SerializedParameters` object or its JSON string.
+ * @returns Parameters ready to pass to `new FSRS(...)`.
+ * @throws Error if a parameter is unknown or invalid, or the schema version is newer.
+ */
+export function parseParameters(data: unknown): Partial<FSRSParameters> {
+	const obj = readObject(data, "parameters");
+	const parameters: Record<string, unknown> = {};
+
+	Object.keys(obj).forEach((key) => {
+		if (key === "schemaVersion") return;
+		if (!PARAMETER_KEYS.includes(key as keyof FSRSParameters)) {
+			throw new Error(`Unknown parameter: "${key}"`);
+		}
+		parameters[key] = obj[key];
+	});
+
+	BOOLEAN_PARAMETER_KEYS.forEach((key) => {
+		if (parameters[key] !== undefined && typeof parameters[key] !== "boolean") {
+			throw new Error(`Invalid ${key}: must be a boolean, got ${typeof parameters[key]}`);
+		}
+	});
+
+	if (
+		parameters.algorithmVersion !== undefined &&
+		!Object.values(AlgorithmVersion).includes(parameters.algorithmVersion as AlgorithmVersion)
+	) {
+		throw new Error(
+			`Invalid algorithmVersion: "${parameters.algorithmVersion}". Must be one of: ${Object.values(
+				AlgorithmVersion
+			).join(", ")}`
+		);
+	}
+
+	return ParameterValidator.validate(parameters as Partial<FSRSParameters>, {
+		checkWeightBounds: false,
+	});
+}
+
+// Accepts an object or a JSON string and checks its schema version.
+function readObject(data: unknown, kind: string): Record<string, unknown> {
+	let value = data;
+	if (typeof value === "string") {
+		try {
+			value = JSON.parse(value);
+		} catch {
+			throw new Error(`Invalid ${kind}: not valid JSON`);
+		}
+	}
+
+	if (!value || typeof value !== "object" || Array.isArray(value)) {
+		throw new Error(`Invalid ${kind}: must be an object`);
+	}
+
+	const obj = value as Record<string, unknown>;
+	const version = obj.schemaVersion;
+	if (!Number.isInteger(version) || (version as number) < 1) {
+		throw new Error(`Invalid schemaVersion: ${version} must be a positive integer`);
+	}
+	if ((version as number) > SCHEMA_VERSION) {
+		throw new Error(
+			`Unsupported schemaVersion: ${version}. This version of the library reads up to ${SCHEMA_VERSION}`
+		);
+	}
+
+	return obj;
+}
+
+function parseState(value: unknown): State {
+	const state = parseEnum(value, STATE_NAMES);
+	if (state === undefined) {
+		throw new Error(
+			`Invalid state: "${value}". Must be one of: ${Object.values(STATE_NAMES).join(", ")}`
+		);
+	}
+	return state as State;
+}
+
+function parseRating(value: unknown): Rating {
+	const rating = parseEnum(value, RATING_NAMES);
+	if (rating === undefined) {
+		throw new Error(
+			`Invalid rating: "${value}". Must be one of: ${Object.values(RATING_NAMES).join(", ")}`
+		);
+	}
+	return rating as Rating;
+}
+
+// Looks up an enum value by its serialized name (any case) or its number.
+function parseEnum(value: unknown, names: Record<number, string>): number | undefined {
+	if (typeof value === "number") {
+		return names[value] !== undefined ? value : undefined;
+	}
+
+	if (typeof value === "string") {
+		const match = Object.keys(names).find((key) => names[Number(key)] === value.toUpperCase());
+		return match !== undefined ? Number(match) : undefined;
+	}
+
+	return undefined;
+}
+
+function parseDate(value: unknown, fieldName: string): Date {
+	const date = typeof value === "string" || value instanceof Date ? new Date(value) : undefined;
+	if (!isValidDate(date)) {
+		throw new Error(`Invalid ${fieldName}: "${value}" is not a valid date`);
+	}
+	return date as Date;
+}
+
+function parseNumber(value: unknown, fieldName: string): number {
+	if (typeof value !== "number" || !Number.isFinite(value)) {
+		throw new Error(`Invalid ${fieldName}: ${value} is not a number`);
+	}
+	if (value < 0) {
+		throw new Error(`Invalid ${fieldName}: ${value} cannot be negative`);
+	}
+	return value;
+}
+
+function parseInteger(value: unknown, fieldName: string): number {
+	const num = parseNumber(value, fieldName);
+	if (!Number.isInteger(num)) {
+		throw new Error(`Invalid ${fieldName}: ${num} must be an integer`);
+	}
+	return num;
+}
@@ -0,0 +1,220 @@
+import { serializeCard, serializeReviewLog } from "./codec";
+import { Card, CsvCardRow, CsvImportResult, RawCardData, ReviewLog } from "./types";
+import { CardValidator } from "./utils/cardValidator";
+import {
+	DelimitedLineParser,
+	DelimitedRow,
+	formatDelimitedField,
+	parseDelimited,
+} from "./utils/csv";
+
+// Column layout of exported cards. Dates are ISO strings and states are names (e.g. "REVIEW");
+// learningStep is empty unless the card is on a (re)learning step.
+export const CARD_CSV_COLUMNS = [
+	"id",
+	"due",
+	"stability",
+	"difficulty",
+	"elapsedDays",
+	"scheduledDays",
+	"reps",
+	"lapses",
+	"state",
+	"lastReview",
+	"learningStep",
+] as const;
+
+// Column layout of exported review logs. Ratings are names (e.g. "GOOD"); reps, lapses,
+// lastReview and learningStep are the card's values before the review.
+export const REVIEW_LOG_CSV_COLUMNS = [
+	"cardId",
+	"review",
+	"rating",
+	"state",
+	"due",
+	"stability",
+	"difficulty",
+	"elapsedDays",
+	"lastElapsedDays",
+	"scheduledDays",
+	"reps",
+	"lapses",
+	"lastReview",
+	"learningStep",
+] as const;
+
+// Every RawCardData field, by lowercased CSV header.
+const RAW_CARD_FIELDS: Record<string, keyof RawCardData> = {
+	id: "id",
+	userid: "userId",
+	cardid: "cardId",
+	due: "due",
+	stability: "stability",
+	difficulty: "difficulty",
+	elapseddays: "elapsedDays",
+	scheduleddays: "scheduledDays",
+	reps: "reps",
+	lapses: "lapses",
+	state: "state",
+	lastreview: "lastReview",
+	learningstep: "learningStep",
+	createdat: "createdAt",
+	updatedat: "updatedAt",
+};
+
+const REQUIRED_CARD_FIELDS: Array<keyof RawCardData> = [
+	"due",
+	"stability",
+	"difficulty",
+	"elapsedDays",
+	"reps",
+	"lapses",
+	"state",
+];
+
+/**
+ * Exports cards as CSV in the `CARD_CSV_COLUMNS` layout, with a header row.
+ * @param cards The cards to export.
+ * @param ids Optional ids, one per card, written to the `id` column.
+ * @returns The CSV text.
+ */
+export function cardsToCsv(cards: Card[], ids?: string[]): string {
+	if (ids && ids.length !== cards.length) {
+		throw new Error(`Expected one id per card: got ${ids.length} ids for ${cards.length} cards`);
+	}
+
+	const rows = cards.map((card, i) => {
+		const values: Record<string, unknown> = { ...serializeCard(card), id: ids?.[i] };
+		return CARD_CSV_COLUMNS.map((column) => values[column]);
+	});
+
+	return toCsv(CARD_CSV_COLUMNS, rows);
+}
+
+/**
+ * Exports review logs as CSV in the `REVIEW_LOG_CSV_COLUMNS` layout, with a header row.
+ * @param reviewLogs The review logs to export.
+ * @param cardIds Optional card ids, one per log, written to the `cardId` column.
+ * @returns The CSV text.
+ */
+export function reviewLogsToCsv(reviewLogs: ReviewLog[], cardIds?: string[]): string {
+	if (cardIds && cardIds.length !== reviewLogs.length) {
+		throw new Error(
+			`Expected one card id per review log: got ${cardIds.length} ids for ${reviewLogs.length} logs`
+		);
+	}
+
+	const rows = reviewLogs.map((log, i) => {
+		const values: Record<string, unknown> = { ...serializeReviewLog(log), cardId: cardIds?.[i] };
+		return REVIEW_LOG_CSV_COLUMNS.map((column) => values[column]);
+	});
+
+	return toCsv(REVIEW_LOG_CSV_COLUMNS, rows);
+}
+
+/**
+ * Reads CSV rows into `RawCardData` without validating them. Headers are matched to
+ * `RawCardData` fields case-insensitively, other columns are ignored, and empty optional
+ * cells are left out.
+ * @param text CSV (or TSV) text with a header row.
+ * @returns One entry per data row, with its line number.
+ * @throws Error if a required column is missing.
+ */
+export function readCardsCsv(text: string): CsvCardRow[] {
+	const [header, ...rows] = parseDelimited(text);
+	if (!header) return [];
+
+	const toCardRow = cardRowReader(header.fields);
+	return rows.map(toCardRow);
+}
+
+/**
+ * Reads CSV rows into `RawCardData` like `readCardsCsv`, from lines that arrive one at a
+ * time (e.g. from `readline`), so the file never has to be loaded as a whole.
+ * @param lines CSV (or TSV) lines without their line breaks, starting with the header row.
+ * @returns Each data row with its line number, as soon as it has been read.
+ * @throws Error if a required column is missing.
+ */
+export async function* readCardsCsvLines(
+	lines: AsyncIterable<string> | Iterable<string>
+): AsyncGenerator<CsvCardRow> {
+	const parser = new DelimitedLineParser();
+	let toCardRow: ((row: DelimitedRow) => CsvCardRow) | undefined;
+
+	for await (const line of lines) {
+		const row = parser.push(line);
+		if (!row) continue;
+
+		if (toCardRow) {
+			yield toCardRow(row);
+		} else {
+			toCardRow = cardRowReader(row.fields);
+		}
+	}
+
+	parser.end();
+}
+
+/**
+ * Imports cards from CSV, validating each row with `CardValidator.validateAndConvertBatch`.
+ * @param text CSV (or TSV) text with a header row, e.g. from `cardsToCsv`.
+ * @returns The valid cards and, for each invalid row, its line number and error.
+ * @throws Error if a required column is missing.
+ */
+export function importCardsCsv(text: string): CsvImportResult {
+	return validateCardRows(readCardsCsv(text));
+}
+
+/**
+ * Imports cards from CSV lines like `importCardsCsv`, reading them with `readCardsCsvLines`.
+ * @param lines CSV (or TSV) lines without their line breaks, starting with the header row.
+ * @returns The valid cards and, for each invalid row, its line number and error.
+ * @throws Error if a required column is missing.
+ */
+export async function importCardsCsvLines(
+	lines: AsyncIterable<string> | Iterable<string>
+): Promise<CsvImportResult> {
+	const rows: CsvCardRow[] = [];
+	for await (const row of readCardsCsvLines(lines)) {
+		rows.push(row);
+	}
+	return validateCardRows(rows);
+}
+
+// Maps the header row onto `RawCardData` fields and returns a reader for the data rows.
+function cardRowReader(header: string[]): (row: DelimitedRow) => CsvCardRow {
+	const fields = header.map(
+		(name) => RAW_CARD_FIELDS[name.trim().toLowerCase().replace(/[\s_]/g, "")]
+	);
+
+	REQUIRED_CARD_FIELDS.forEach((field) => {
+		if (!fields.includes(field)) throw new Error(`Missing column: ${field}`);
+	});
+
+	return ({ line, fields: values }) => {
+		const data: Record<string, string> = {};
+		fields.forEach((field, i) => {
+			const value = values[i]?.trim() ?? "";
+			if (field && (value !== "" || REQUIRED_CARD_FIELDS.includes(field))) {
+				data[field] = value;
+			}
+		});
+		return { row: line, data: data as unknown as RawCardData };
+	};
+}
+
+function validateCardRows(rows: CsvCardRow[]): CsvImportResult {
+	const { valid, errors } = CardValidator.validateAndConvertBatch(rows.map((row) => row.data));
+
+	return {
+		valid,
+		errors: errors.map((error) => ({ ...error, row: rows[error.index].row })),
+	};
+}
+
+function toCsv(columns: readonly string[], rows: unknown[][]): string {
+	const lines = [columns, ...rows].map((values) =>
+		values.map((value) => formatDelimitedField(value == null ? "" : String(value))).join(",")
+	);
+	return lines.join("\n") + "\n";
+}
@@ -0,0 +1,158 @@
+import { FSRS } from "./fsrs";
+import {
+	Card,
+	DeckEntry,
+	DueCounts,
+	Rating,
+	RawCardData,
+	RawCardMapping,
+	SchedulingInfo,
+	State,
+} from "./types";
+import { CardValidator } from "./utils/cardValidator";
+
+// A collection of cards keyed by id, answering due-queue queries and applying
+// ratings through a shared FSRS instance.
+export class Deck {
+	private fsrs: FSRS;
+	private cards: Map<string, Card> = new Map();
+
+	constructor(fsrs: FSRS = new FSRS(), entries?: DeckEntry[]) {
+		this.fsrs = fsrs;
+		entries?.forEach(({ id, card }) => this.addCard(id, card));
+	}
+
+	/**
+	 * Number of cards in the deck.
+	 */
+	get size(): number {
+		return this.cards.size;
+	}
+
+	/**
+	 * Adds a card to the deck.
+	 * @param id Unique id of the card.
+	 * @param card The card, defaults to a new empty card.
+	 * @param now Creation date used for the empty card.
+	 * @returns The added card.
+	 * @throws Error if a card with the same id already exists.
+	 */
+	addCard(id: string, card?: Card, now: Date = new Date()): Card {
+		if (!id) throw new Error("Card id cannot be empty");
+		if (this.cards.has(id)) throw new Error(`Card "${id}" already exists in the deck`);
+
+		const added = card ? { ...card } : this.fsrs.createEmptyCard(now);
+		this.cards.set(id, added);
+		return { ...added };
+	}
+
+	/**
+	 * Validates raw card data and adds it under its `cardId`, falling back to `id`.
+	 * @param rawData The raw card data from a database or API.
+	 * @param mapping How to read rows with other column names, state codes or timestamps.
+	 * @returns The added card.
+	 * @throws Error if the data is invalid or has no id.
+	 */
+	addRawCard(rawData: RawCardData | Record<string, unknown>, mapping?: RawCardMapping): Card {
+		const data =
+			mapping && rawData ? CardValidator.applyMapping(rawData, mapping) : (rawData as RawCardData);
+		const id = data?.cardId ?? data?.id;
+		if (!id) throw new Error("Raw card data must have a cardId or id");
+
+		return this.addCard(String(id), this.fsrs.convertRawCard(data));
+	}
+
+	getCard(id: string): Card | undefined {
+		const card = this.cards.get(id);
+		return card ? { ...card } : undefined;
+	}
+
+	removeCard(id: string): boolean {
+		return this.cards.delete(id);
+	}
+
+	/**
+	 * Returns studied cards that are due, most overdue first.
+	 * @param now The current date.
+	 * @param limit Maximum number of cards to return.
+	 */
+	getDue(now: Date = new Date(), limit?: number): DeckEntry[] {
+		const due = this.entries()
+			.filter(({ card }) => card.state !== State.New && this.fsrs.isDue(card, now))
+			.sort((a, b) => a.card.due.getTime() - b.card.due.getTime());
+
+		return limit === undefined ? due : due.slice(0, limit);
+	}
+
+	/**
+	 * Returns new cards in the order they were added.
+	 * @param limit Maximum number of cards to return.
+	 */
+	getNew(limit?: number): DeckEntry[] {
+		const fresh = this.entries().filter(({ card }) => card.state === State.New);
+		return limit === undefined ? fresh : fresh.slice(0, limit);
+	}
+
+	/**
+	 * Counts the cards in each state.
+	 */
+	getCounts(): Record<State, number> {
+		const counts: Record<State, number> = {
+			[State.New]: 0,
+			[State.Learning]: 0,
+			[State.Review]: 0,
+			[State.Relearning]: 0,
+		};
+
+		this.cards.forEach((card) => {
+			counts[card.state] += 1;
+		});
+
+		return counts;
+	}
+
+	/**
+	 * Counts studied cards due on each day, for load balancing.
+	 * @param excludeId A card to leave out, typically the one being rescheduled.
+	 * @returns Due counts keyed by `FSRS.getDayKey`.
+	 */
+	getDueCounts(excludeId?: string): DueCounts {
+		const counts: DueCounts = {};
+
+		this.cards.forEach((card, id) => {
+			if (id === excludeId || card.state === State.New) return;
+			const key = this.fsrs.getDayKey(card.due);
+			counts[key] = (counts[key] ?? 0) + 1;
+		});
+
+		return counts;
+	}
+
+	/**
+	 * Applies a rating to a card and stores the updated card.
+	 * When load balancing is enabled the deck's own due counts are used.
+	 * @param id Id of the card being reviewed.
+	 * @param rating The rating given by the user.
+	 * @param now The current date of the review.
+	 * @returns The updated card and its review log.
+	 * @throws Error if no card has this id.
+	 */
+	review(id: string, rating: Rating, now: Date = new Date()): SchedulingInfo {
+		const card = this.cards.get(id);
+		if (!card) throw new Error(`Card "${id}" not found in the deck`);
+
+		const dueCounts = this.fsrs.getParameters().enableLoadBalance
+			? this.getDueCounts(id)
+			: undefined;
+		const result = this.fsrs.next(card, now, rating, { dueCounts });
+		this.cards.set(id, result.card);
+		return { card: { ...result.card }, reviewLog: result.reviewLog };
+	}
+
+	/**
+	 * Returns every card in the deck.
+	 */
+	entries(): DeckEntry[] {
+		return Array.from(this.cards, ([id, card]) => ({ id, card: { ...card } }));
+	}
+}
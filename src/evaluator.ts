@@ -0,0 +1,180 @@
+import { FSRS } from "./fsrs";
+import {
+	Card,
+	ModelCandidate,
+	ModelEvaluation,
+	Rating,
+	ReviewLog,
+	ReviewPrediction,
+	State,
+} from "./types";
+
+// Predictions are clamped away from 0 and 1 so the log-loss stays finite.
+const EPSILON = 1e-6;
+
+/**
+ * Replays review histories under several parameter sets and scores how well each
+ * predicts whether the reviews were recalled.
+ * @param histories One array of review logs per card, in any order.
+ * @param candidates The parameter sets to compare, each with a name for the results.
+ * @returns One evaluation per candidate, in the same order.
+ * @throws Error if no candidates are given or the histories contain no reviews to predict.
+ */
+export function evaluateParameters(
+	histories: ReviewLog[][],
+	candidates: ModelCandidate[]
+): ModelEvaluation[] {
+	if (candidates.length === 0) {
+		throw new Error("Invalid candidates: at least one parameter set is required");
+	}
+
+	const sorted = histories.map((history) =>
+		[...history].sort((a, b) => a.review.getTime() - b.review.getTime())
+	);
+
+	return candidates.map(({ name, parameters }) => {
+		const fsrs = new FSRS(parameters);
+		const predictions: ReviewPrediction[] = [];
+		forEachPrediction(fsrs, sorted, (prediction) => predictions.push(prediction));
+
+		if (predictions.length === 0) {
+			throw new Error(
+				"No reviews to evaluate: histories need reviews at least a day after the previous one"
+			);
+		}
+
+		return {
+			name,
+			parameters: fsrs.getParameters(),
+			reviewCount: predictions.length,
+			logLoss: logLoss(predictions),
+			rmseBins: rmseBins(predictions),
+			auc: auc(predictions),
+		};
+	});
+}
+
+/**
+ * Replays review histories and reports every review the scheduler had to predict.
+ * Manual resets restart the card, and only reviews at least a day after the previous
+ * one say anything about the forgetting curve. Each review computes only its rated
+ * outcome (`nextMemoryState`), since intervals do not affect the predictions.
+ * @param fsrs The scheduler to replay with.
+ * @param histories One array of review logs per card, oldest review first.
+ * @param visit Called once per predicted review, in order.
+ */
+export function forEachPrediction(
+	fsrs: FSRS,
+	histories: ReviewLog[][],
+	visit: (prediction: ReviewPrediction) => void
+): void {
+	histories.forEach((history) => {
+		let card: Card | undefined;
+
+		history.forEach((log) => {
+			if (!card) card = fsrs.createEmptyCard(log.review);
+
+			// A manual reset carries no recall information, it only restarts the card.
+			if (log.rating === Rating.Manual) {
+				card = fsrs.forget(card, log.review, { resetCounts: log.resetCounts }).card;
+				return;
+			}
+
+			const elapsedDays =
+				card.state !== State.New && card.lastReview
+					? fsrs.getElapsedDays(card.lastReview, log.review)
+					: 0;
+
+			if (elapsedDays >= 1) {
+				visit({
+					retrievability: fsrs.getRetrievability(card, log.review) ?? 1,
+					recalled: log.rating !== Rating.Again,
+					elapsedDays,
+					reviewNumber: card.reps + 1,
+					lapses: card.lapses,
+				});
+			}
+
+			card = fsrs.nextMemoryState(card, log.review, log.rating);
+		});
+	});
+}
+
+/**
+ * Mean log-loss of the predicted retrievabilities against actual recall, the quantity
+ * the optimizer minimizes.
+ * @param predictions The predicted reviews, at least one.
+ */
+export function logLoss(predictions: ReviewPrediction[]): number {
+	const total = predictions.reduce((sum, { retrievability, recalled }) => {
+		const p = Math.min(Math.max(retrievability, EPSILON), 1 - EPSILON);
+		return sum - (recalled ? Math.log(p) : Math.log(1 - p));
+	}, 0);
+	return total / predictions.length;
+}
+
+/**
+ * RMSE over bins of similar reviews, as in the FSRS benchmark: reviews are grouped by
+ * log-scaled elapsed days, review number and lapse count, and each bin's mean prediction
+ * is compared with its recall rate, weighted by the number of reviews in the bin.
+ */
+function rmseBins(predictions: ReviewPrediction[]): number {
+	const bins = new Map<string, { predicted: number; recalled: number; count: number }>();
+
+	predictions.forEach(({ retrievability, recalled, elapsedDays, reviewNumber, lapses }) => {
+		const key = [
+			logBin(elapsedDays, 2.48, 3.62, 2),
+			logBin(reviewNumber, 1.99, 1.89, 0),
+			lapses === 0 ? 0 : logBin(lapses, 1.65, 1.73, 0),
+		].join("|");
+
+		const bin = bins.get(key) ?? { predicted: 0, recalled: 0, count: 0 };
+		bin.predicted += retrievability;
+		bin.recalled += recalled ? 1 : 0;
+		bin.count += 1;
+		bins.set(key, bin);
+	});
+
+	let squaredError = 0;
+	bins.forEach(({ predicted, recalled, count }) => {
+		squaredError += count * Math.pow(recalled / count - predicted / count, 2);
+	});
+
+	return Math.sqrt(squaredError / predictions.length);
+}
+
+// Rounds a value down onto a geometric grid: scale * base^floor(log_base(value)).
+function logBin(value: number, scale: number, base: number, digits: number): number {
+	const binned = scale * Math.pow(base, Math.floor(Math.log(value) / Math.log(base)));
+	const factor = Math.pow(10, digits);
+	return Math.round(binned * factor) / factor;
+}
+
+/**
+ * Area under the ROC curve: the probability that a recalled review was predicted a higher
+ * retrievability than a forgotten one, with ties counting half.
+ */
+function auc(predictions: ReviewPrediction[]): number | undefined {
+	const positives = predictions.filter(({ recalled }) => recalled).length;
+	const negatives = predictions.length - positives;
+	if (positives === 0 || negatives === 0) return undefined;
+
+	const sorted = [...predictions].sort((a, b) => a.retrievability - b.retrievability);
+	let positiveRankSum = 0;
+
+	// Tied predictions share the average of their 1-based ranks.
+	for (let start = 0; start < sorted.length;) {
+		let end = start;
+		while (end < sorted.length && sorted[end].retrievability === sorted[start].retrievability) {
+			end++;
+		}
+
+		const averageRank = (start + 1 + end) / 2;
+		for (let i = start; i < end; i++) {
+			if (sorted[i].recalled) positiveRankSum += averageRank;
+		}
+		start = end;
+	}
+
+	return (positiveRankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
@@ -1,4 +1,5 @@
 import {
+	AlgorithmVersion,
 	Card,
 	Rating,
 	State,
@@ -7,60 +8,59 @@ import {
 	SchedulingInfo,
 	SchedulingCards,
 	RawCardData,
+	RawCardMapping,
+	DueCounts,
+	ForgetOptions,
+	ReplayResult,
+	ReviewHistoryEntry,
+	ScheduleOptions,
+	SchedulingHooks,
 } from "./types";
+import { getAlgorithmSpec, getForgettingCurve } from "./algorithms";
 import { CardValidator } from "./utils/cardValidator";
-import { calcElapsedDays } from "./utils/timeFuncs";
-
-// Implementation of FSRS-4.5
-// Based on the FSRS-4.5 algorithm specification.
-// This version has been updated for clarity and adherence to the standard.
+import { ParameterValidator } from "./utils/parameterValidator";
+import { createSeededRandom, getFuzzRange, MIN_FUZZ_INTERVAL } from "./utils/fuzz";
+import {
+	calcElapsedDays,
+	formatDayKey,
+	formatDayNumber,
+	getDayNumber,
+	getStartOfDay,
+	isValidDate,
+	parseStepMinutes,
+} from "./utils/timeFuncs";
+
+// Implementation of FSRS-4, FSRS-4.5, FSRS-5 and FSRS-6.
+// The algorithm version is selected through `FSRSParameters.algorithmVersion`;
+// each version carries its own default weights and forgetting curve.
 export class FSRS {
 	private parameters: FSRSParameters;
+	private hooks: { [K in keyof SchedulingHooks]: Array<SchedulingHooks[K]> } = {
+		beforeSchedule: [],
+		afterCalculate: [],
+		afterSchedule: [],
+	};
 
 	constructor(parameters?: Partial<FSRSParameters>) {
-		// Default FSRS-4.5 parameters optimized for general use.
-		// These 17 parameters are the core of the algorithm.
+		const algorithmVersion = parameters?.algorithmVersion ?? AlgorithmVersion.FSRS4;
+		const spec = getAlgorithmSpec(algorithmVersion);
+
 		this.parameters = {
 			requestRetention: 0.9, // Target probability of recalling a card
 			maximumInterval: 36500, // Maximum number of days for an interval
-			w: [
-				// w[0]: Initial stability for Again
-				0.4,
-				// w[1]: Initial stability for Hard
-				0.6,
-				// w[2]: Initial stability for Good
-				2.4,
-				// w[3]: Initial stability for Easy
-				5.8,
-				// w[4]: Initial difficulty for Good
-				4.93,
-				// w[5]: Difficulty change factor
-				0.94,
-				// w[6]: Difficulty change factor
-				0.86,
-				// w[7]: Mean reversion weight for difficulty
-				0.01,
-				// w[8]: Stability increase factor
-				1.49,
-				// w[9]: Stability exponent
-				0.14,
-				// w[10]: Stability factor for memory retrieval
-				0.94,
-				// w[11]: Stability factor for forgotten cards
-				2.18,
-				// w[12]: Difficulty exponent for forgotten cards
-				0.05,
-				// w[13]: Stability exponent for forgotten cards
-				0.34,
-				// w[14]: Retrieval exponent for forgotten cards
-				1.26,
-				// w[15]: Penalty factor for "Hard" rating
-				0.29,
-				// w[16]: Bonus factor for "Easy" rating
-				2.61,
-			],
+			w: [...spec.defaultWeights],
+			learningSteps: [], // No steps: new cards go straight to day intervals
+			relearningSteps: [], // No steps: lapsed cards go straight to day intervals
+			enableFuzz: false, // Deterministic, unfuzzed intervals
+			enableLoadBalance: false, // Ignore how many cards are already due
+			easyDays: [1, 1, 1, 1, 1, 1, 1], // Every weekday carries a full workload
+			dayRolloverHour: 0, // Days start at midnight
+			fractionalElapsedDays: false, // Recall is computed from whole elapsed days
 			...parameters,
+			algorithmVersion,
 		};
+
+		this.validateParameters(this.parameters);
 	}
 
 	/**
@@ -86,47 +86,245 @@ export class FSRS {
 	 * Generates scheduling information for all possible ratings for a given card.
 	 * @param card The card to schedule.
 	 * @param now The current date of the review.
+	 * @param options Existing due counts for load balancing.
 	 * @returns An object containing the card and review log for each rating.
 	 */
-	schedule(card: Card, now: Date = new Date()): SchedulingCards {
+	schedule(card: Card, now: Date = new Date(), options?: ScheduleOptions): SchedulingCards {
+		if (!card) throw new Error("card cannot be null or undefined");
+
+		if (card.lastReview && now < card.lastReview)
+			throw new Error("Current time cannot be before the last review");
+
+		const input = this.freezeCard(card);
+		this.hooks.beforeSchedule.forEach((hook) => hook({ card: input, now, options }));
+
+		const cards = this.buildSchedulingCards(card, now, options);
+
+		[Rating.Again, Rating.Hard, Rating.Good, Rating.Easy].forEach((rating) => {
+			const outcome = cards[this.getRatingKey(rating)];
+			this.hooks.afterCalculate.forEach((hook) => {
+				const replaced = hook({ card: input, now, options, rating, scheduled: outcome.card });
+				if (replaced) outcome.card = replaced;
+			});
+		});
+
+		this.hooks.afterSchedule.forEach((hook) => hook({ card: input, now, options, result: cards }));
+		return cards;
+	}
+
+	/**
+	 * Registers a callback on this scheduler's `schedule` lifecycle.
+	 * Hooks of each kind run in registration order: every `beforeSchedule` hook runs before
+	 * any calculation, `afterCalculate` runs once per rating (Again, Hard, Good, Easy) on the
+	 * final card, after fuzzing and load balancing, and `afterSchedule` runs last.
+	 * Hooks receive a frozen copy of the input card, so the caller's card is never modified.
+	 * @param name The lifecycle point.
+	 * @param hook The callback.
+	 * @returns A function that unregisters the hook.
+	 */
+	addHook<K extends keyof SchedulingHooks>(name: K, hook: SchedulingHooks[K]): () => void {
+		if (!this.hooks[name]) {
+			throw new Error(
+				`Invalid hook: "${name}". Must be one of: ${Object.keys(this.hooks).join(", ")}`
+			);
+		}
+		if (typeof hook !== "function") throw new Error("hook must be a function");
+
+		const hooks = this.hooks[name] as Array<SchedulingHooks[K]>;
+		hooks.push(hook);
+
+		return () => {
+			const index = hooks.indexOf(hook);
+			if (index !== -1) hooks.splice(index, 1);
+		};
+	}
+
+	/**
+	 * Applies a single rating to a card.
+	 * @param card The card being reviewed.
+	 * @param now The current date of the review.
+	 * @param rating The rating given by the user.
+	 * @param options Existing due counts for load balancing.
+	 * @returns The updated card and the review log for that rating.
+	 */
+	next(card: Card, now: Date, rating: Rating, options?: ScheduleOptions): SchedulingInfo {
+		return this.schedule(card, now, options)[this.getRatingKey(rating)];
+	}
+
+	/**
+	 * Applies a single rating to a card without fuzz, load balancing or hooks, so only the
+	 * rated outcome is computed. The memory state, counters and state match `next`; `due`
+	 * and `scheduledDays` are the unadjusted interval. Meant for replaying long histories,
+	 * e.g. when evaluating or training parameters.
+	 * @param card The card being reviewed.
+	 * @param now The current date of the review.
+	 * @param rating The rating given by the user.
+	 * @returns The updated card.
+	 */
+	nextMemoryState(card: Card, now: Date, rating: Rating): Card {
 		if (!card) throw new Error("card cannot be null or undefined");
 
 		if (card.lastReview && now < card.lastReview)
 			throw new Error("Current time cannot be before the last review");
 
-		return this.buildSchedulingCards(card, now);
+		this.getRatingKey(rating); // Rejects Manual and unknown ratings, like `next`
+		return this.calculateScheduledCard(card, rating, now);
+	}
+
+	/**
+	 * Rebuilds a card's memory state by replaying its review history from an empty card.
+	 * Rating.Manual entries are replayed as `forget`, clearing reps and lapses only when
+	 * the entry has `resetCounts`.
+	 * @param history The reviews to replay, oldest first. ReviewLog arrays are accepted.
+	 * @param startDate When the card was created, defaults to the first review.
+	 * @returns The final card and the regenerated review logs.
+	 * @throws Error if an entry has an invalid rating or date, or entries are out of order.
+	 */
+	replay(history: ReviewHistoryEntry[], startDate?: Date): ReplayResult {
+		let card = this.createEmptyCard(startDate ?? history[0]?.review ?? new Date());
+		const reviewLogs: ReviewLog[] = [];
+		let previousReview: Date | undefined;
+
+		history.forEach((entry, index) => {
+			if (!isValidDate(entry.review)) {
+				throw new Error(`Invalid review date at history index ${index}`);
+			}
+
+			if (!Number.isInteger(entry.rating) || Rating[entry.rating] === undefined) {
+				throw new Error(`Invalid rating at history index ${index}: ${entry.rating}`);
+			}
+
+			if (previousReview && entry.review < previousReview) {
+				throw new Error(`Review history is not in chronological order at index ${index}`);
+			}
+
+			const result =
+				entry.rating === Rating.Manual
+					? this.forget(card, entry.review, { resetCounts: entry.resetCounts })
+					: this.next(card, entry.review, entry.rating);
+			card = result.card;
+			reviewLogs.push(result.reviewLog);
+			previousReview = entry.review;
+		});
+
+		return { card, reviewLogs };
+	}
+
+	/**
+	 * Resets a card back to State.New, discarding its memory state.
+	 * @param card The card to reset.
+	 * @param now The time of the reset.
+	 * @param options Whether to also clear reps and lapses.
+	 * @returns The reset card and a Rating.Manual review log recording the reset.
+	 */
+	forget(card: Card, now: Date = new Date(), options?: ForgetOptions): SchedulingInfo {
+		if (!card) throw new Error("card cannot be null or undefined");
+
+		const resetCard = this.createEmptyCard(now);
+		const reviewLog = this.buildReviewLog(card, Rating.Manual, now);
+		if (options?.resetCounts) {
+			reviewLog.resetCounts = true;
+		} else {
+			resetCard.reps = card.reps;
+			resetCard.lapses = card.lapses;
+		}
+
+		return { card: resetCard, reviewLog };
+	}
+
+	/**
+	 * Undoes a review, restoring the card to its exact state before that review.
+	 * @param card The card as it is after the review.
+	 * @param reviewLog The review log produced by that review.
+	 * @returns The card as it was before the review.
+	 * @throws Error if the log is not the card's latest review or lacks the recorded counters.
+	 */
+	rollback(card: Card, reviewLog: ReviewLog): Card {
+		if (!card) throw new Error("card cannot be null or undefined");
+		if (!reviewLog) throw new Error("reviewLog cannot be null or undefined");
+
+		if (reviewLog.reps === undefined || reviewLog.lapses === undefined) {
+			throw new Error("Review log does not record reps and lapses, so it cannot be rolled back");
+		}
+
+		if (reviewLog.rating === Rating.Manual) {
+			// A reset leaves a new card due at the time of the reset.
+			if (card.state !== State.New || card.due.getTime() !== reviewLog.review.getTime()) {
+				throw new Error("Review log does not match the card's latest reset");
+			}
+		} else {
+			if (!card.lastReview || card.lastReview.getTime() !== reviewLog.review.getTime()) {
+				throw new Error("Review log does not match the card's latest review");
+			}
+
+			if (card.reps !== reviewLog.reps + 1 || card.lapses < reviewLog.lapses) {
+				throw new Error("Review log does not match the card's reps and lapses");
+			}
+		}
+
+		if (reviewLog.reps > 0 && !reviewLog.lastReview) {
+			throw new Error("Review log does not record the previous lastReview");
+		}
+
+		const previous: Card = {
+			due: new Date(reviewLog.due),
+			stability: reviewLog.stability,
+			difficulty: reviewLog.difficulty,
+			elapsedDays: reviewLog.lastElapsedDays,
+			scheduledDays: reviewLog.scheduledDays,
+			reps: reviewLog.reps,
+			lapses: reviewLog.lapses,
+			state: reviewLog.state,
+			lastReview: reviewLog.lastReview ? new Date(reviewLog.lastReview) : undefined,
+		};
+
+		if (reviewLog.learningStep !== undefined) {
+			previous.learningStep = reviewLog.learningStep;
+		}
+
+		return previous;
 	}
 
 	/**
 	 * Converts raw card data, validates it, and then schedules it.
 	 * @param rawData The raw card data from a database or API.
 	 * @param now The current date of the review.
+	 * @param mapping How to read rows with other column names, state codes or timestamps.
 	 * @returns Scheduling cards for all ratings.
 	 */
-	scheduleRawCard(rawData: RawCardData, now: Date = new Date()): SchedulingCards {
-		const card = this.convertRawCard(rawData);
+	scheduleRawCard(
+		rawData: RawCardData | Record<string, unknown>,
+		now: Date = new Date(),
+		mapping?: RawCardMapping
+	): SchedulingCards {
+		const card = this.convertRawCard(rawData, mapping);
 		return this.schedule(card, now);
 	}
 
 	/**
 	 * Converts and validates raw card data into a formal Card object.
 	 * @param rawData The raw card data.
+	 * @param mapping How to read rows with other column names, state codes or timestamps.
 	 * @returns A validated Card object.
 	 */
-	convertRawCard(rawData: RawCardData): Card {
-		return CardValidator.validateAndConvert(rawData);
+	convertRawCard(rawData: RawCardData | Record<string, unknown>, mapping?: RawCardMapping): Card {
+		return CardValidator.validateAndConvert(rawData, mapping);
 	}
 
 	/**
 	 * Batch converts and validates multiple raw cards.
 	 * @param rawDataArray Array of raw card data.
+	 * @param mapping How to read rows with other column names, state codes or timestamps.
 	 * @returns An object containing arrays of valid cards and any errors encountered.
 	 */
-	convertRawCardBatch(rawDataArray: RawCardData[]): {
+	convertRawCardBatch<T extends RawCardData | Record<string, unknown>>(
+		rawDataArray: T[],
+		mapping?: RawCardMapping
+	): {
 		valid: Card[];
-		errors: Array<{ index: number; error: string; data: RawCardData }>;
+		errors: Array<{ index: number; error: string; data: T }>;
 	} {
-		return CardValidator.validateAndConvertBatch(rawDataArray);
+		return CardValidator.validateAndConvertBatch(rawDataArray, mapping);
 	}
 
 	/**
@@ -139,13 +337,51 @@ export class FSRS {
 		if (card.state === State.New || !card.lastReview) {
 			return undefined;
 		}
-		const elapsedDays = calcElapsedDays(card.lastReview, now);
+		const elapsedDays = this.getRecallElapsedDays(card.lastReview, now);
 		return this.retrievability(elapsedDays, card.stability);
 	}
 
-	// ----------------------------- FSRS-4.5 Algorithm Core -----------------------------
+	/**
+	 * Counts the days between two reviews. With a `timezone` or `dayRolloverHour`
+	 * configured this is the number of learner days crossed, otherwise whole 24-hour periods.
+	 * @param lastReview The earlier review.
+	 * @param now The later review.
+	 * @returns The elapsed days, never negative.
+	 */
+	getElapsedDays(lastReview: Date, now: Date): number {
+		if (!this.usesDayBoundaries() || !isValidDate(lastReview)) {
+			return calcElapsedDays(lastReview, now);
+		}
+
+		return Math.max(0, this.getDayNumber(now) - this.getDayNumber(lastReview));
+	}
 
-	private buildSchedulingCards(card: Card, now: Date): SchedulingCards {
+	/**
+	 * Whether a card should be in today's review queue. Cards scheduled in days are due
+	 * from the start of their learner day; cards on a (re)learning step at their exact time.
+	 * @param card The card to check.
+	 * @param now The current date.
+	 */
+	isDue(card: Card, now: Date = new Date()): boolean {
+		if (!this.usesDayBoundaries() || card.learningStep !== undefined) {
+			return card.due <= now;
+		}
+
+		return this.getDayNumber(card.due) <= this.getDayNumber(now);
+	}
+
+	// ----------------------------- FSRS Algorithm Core -----------------------------
+
+	/**
+	 * Returns the day a date falls on, in the format used as `DueCounts` keys.
+	 * @param date The date to convert.
+	 * @returns The day as "YYYY-MM-DD", in the configured time zone and day rollover.
+	 */
+	getDayKey(date: Date): string {
+		return formatDayKey(date, this.parameters.timezone, this.parameters.dayRolloverHour);
+	}
+
+	private buildSchedulingCards(card: Card, now: Date, options?: ScheduleOptions): SchedulingCards {
 		const cards: SchedulingCards = {} as SchedulingCards;
 
 		[Rating.Again, Rating.Hard, Rating.Good, Rating.Easy].forEach((rating) => {
@@ -159,9 +395,128 @@ export class FSRS {
 			};
 		});
 
+		const dueCounts = this.parameters.enableLoadBalance ? options?.dueCounts : undefined;
+		if (this.parameters.enableFuzz || dueCounts || this.hasEasyDays()) {
+			this.adjustIntervals(card, cards, now, dueCounts);
+		}
+
 		return cards;
 	}
 
+	// Moves day intervals within their fuzz range, either randomly (fuzz) or to the
+	// least-loaded day (load balancing and easy days). The seed is derived from the card
+	// and the review time, so the same review always lands on the same day.
+	private adjustIntervals(
+		card: Card,
+		cards: SchedulingCards,
+		now: Date,
+		dueCounts?: DueCounts
+	): void {
+		const random = createSeededRandom(
+			[
+				now.getTime(),
+				card.lastReview?.getTime() ?? 0,
+				card.reps,
+				card.stability,
+				card.difficulty,
+			].join("_")
+		);
+
+		// Day intervals land on whole learner days, so candidates are found by day number.
+		const today = this.getDayNumber(now);
+		let previousInterval = 0;
+		(["again", "hard", "good", "easy"] as const).forEach((key) => {
+			const scheduledCard = cards[key].card;
+			const random01 = random();
+
+			// Cards on a (re)learning step are scheduled in minutes and never fuzzed.
+			if (scheduledCard.learningStep !== undefined) return;
+
+			let interval = scheduledCard.scheduledDays;
+			if (interval >= MIN_FUZZ_INTERVAL) {
+				const { minInterval, maxInterval } = getFuzzRange(
+					interval,
+					scheduledCard.elapsedDays,
+					this.parameters.maximumInterval
+				);
+				if (dueCounts || this.hasEasyDays()) {
+					// Search only days that keep the ordering, so it is not undone below.
+					const lowest = Math.min(Math.max(minInterval, previousInterval), maxInterval);
+					interval = this.leastLoadedInterval(
+						today,
+						interval,
+						lowest,
+						maxInterval,
+						dueCounts ?? {},
+						random01
+					);
+				} else {
+					interval = Math.floor(random01 * (maxInterval - minInterval + 1)) + minInterval;
+				}
+			}
+
+			// Adjustments must never reorder Hard < Good < Easy.
+			if (key !== "again") {
+				interval = Math.min(Math.max(interval, previousInterval), this.parameters.maximumInterval);
+				previousInterval = interval;
+			}
+
+			scheduledCard.scheduledDays = interval;
+			scheduledCard.due = this.getDueDate(now, interval);
+		});
+	}
+
+	// Picks the interval in [minInterval, maxInterval] whose day has the fewest cards due
+	// relative to its easy-days weight. Rest days (weight 0) are skipped unless every day
+	// in the range is one. Ties go to a random day when fuzzing, otherwise to the day
+	// closest to the target. Days are numbered from `today`, so no dates are built here.
+	private leastLoadedInterval(
+		today: number,
+		target: number,
+		minInterval: number,
+		maxInterval: number,
+		dueCounts: DueCounts,
+		random01: number
+	): number {
+		const easyDays = this.parameters.easyDays ?? [];
+
+		// Rest days are ranked separately in case the whole range is rest days.
+		const ranked = { best: [] as number[], bestLoad: Infinity };
+		const restDays = { best: [] as number[], bestLoad: Infinity };
+		const rank = (candidates: typeof ranked, interval: number, load: number) => {
+			if (load < candidates.bestLoad) {
+				candidates.best = [interval];
+				candidates.bestLoad = load;
+			} else if (load === candidates.bestLoad) {
+				candidates.best.push(interval);
+			}
+		};
+
+		for (let interval = minInterval; interval <= maxInterval; interval++) {
+			const day = today + interval;
+			const count = (dueCounts[formatDayNumber(day)] ?? 0) + 1;
+			// Day 0 (1970-01-01) was a Thursday.
+			const weight = easyDays[(((day + 4) % 7) + 7) % 7] ?? 1;
+
+			if (weight > 0) {
+				rank(ranked, interval, count / weight);
+			} else if (ranked.best.length === 0) {
+				rank(restDays, interval, count);
+			}
+		}
+
+		const best = ranked.best.length > 0 ? ranked.best : restDays.best;
+		if (this.parameters.enableFuzz) {
+			return best[Math.floor(random01 * best.length)];
+		}
+
+		return best.reduce((a, b) => (Math.abs(b - target) < Math.abs(a - target) ? b : a));
+	}
+
+	private hasEasyDays(): boolean {
+		return (this.parameters.easyDays ?? []).some((weight) => weight !== 1);
+	}
+
 	private calculateScheduledCard(card: Card, rating: Rating, now: Date): Card {
 		const newCard = { ...card };
 
@@ -175,13 +530,26 @@ export class FSRS {
 			newCard.stability = this.initStability(rating);
 		} else {
 			// Review of a card that has been seen before
-			const elapsedDays = card.lastReview ? calcElapsedDays(card.lastReview, now) : 0;
+			const elapsedDays = card.lastReview ? this.getElapsedDays(card.lastReview, now) : 0;
 			newCard.elapsedDays = elapsedDays;
-			const R = this.retrievability(elapsedDays, card.stability);
+			const recallElapsedDays = card.lastReview
+				? this.getRecallElapsedDays(card.lastReview, now)
+				: 0;
+			const R = this.retrievability(recallElapsedDays, card.stability);
 			newCard.difficulty = this.nextDifficulty(card.difficulty, rating);
-			newCard.stability = this.nextStability(newCard.difficulty, card.stability, R, rating);
+			newCard.stability =
+				elapsedDays < 1 && this.hasShortTermStability()
+					? this.shortTermStability(card.stability, rating)
+					: this.nextStability(newCard.difficulty, card.stability, R, rating);
+		}
+
+		const steps = this.getSteps(card, rating);
+		if (steps) {
+			return this.applyLearningStep(card, newCard, rating, steps, now);
 		}
 
+		delete newCard.learningStep;
+
 		if (rating === Rating.Again) {
 			newCard.lapses += 1;
 			newCard.state = State.Relearning;
@@ -192,7 +560,80 @@ export class FSRS {
 			newCard.scheduledDays = this.nextInterval(newCard.stability);
 		}
 
-		newCard.due = this.addDays(now, newCard.scheduledDays);
+		newCard.due = this.getDueDate(now, newCard.scheduledDays);
+		return newCard;
+	}
+
+	// Returns the steps (in minutes) that apply to this review, or undefined when
+	// the card should be scheduled in days.
+	private getSteps(card: Card, rating: Rating): number[] | undefined {
+		let steps: string[] | undefined;
+
+		if (card.state === State.New || card.state === State.Learning) {
+			steps = this.parameters.learningSteps;
+		} else if (card.state === State.Relearning) {
+			steps = this.parameters.relearningSteps;
+		} else if (rating === Rating.Again) {
+			steps = this.parameters.relearningSteps;
+		}
+
+		return steps && steps.length > 0 ? steps.map(parseStepMinutes) : undefined;
+	}
+
+	private applyLearningStep(
+		card: Card,
+		newCard: Card,
+		rating: Rating,
+		steps: number[],
+		now: Date
+	): Card {
+		// A lapse from Review starts relearning at the first step.
+		if (card.state === State.Review) {
+			newCard.lapses += 1;
+			newCard.state = State.Relearning;
+			return this.scheduleStep(newCard, 0, steps[0], now);
+		}
+
+		const state = card.state === State.Relearning ? State.Relearning : State.Learning;
+		const step = card.state === State.New ? 0 : Math.min(card.learningStep ?? 0, steps.length - 1);
+		newCard.state = state;
+
+		switch (rating) {
+			case Rating.Again:
+				return this.scheduleStep(newCard, 0, steps[0], now);
+			case Rating.Hard: {
+				// Hard repeats the current step; on the first step it waits between the first two.
+				let minutes = steps[step];
+				if (step === 0) {
+					minutes =
+						steps.length > 1
+							? (steps[0] + steps[1]) / 2
+							: Math.min(steps[0] * 1.5, steps[0] + 60 * 24);
+				}
+				return this.scheduleStep(newCard, step, minutes, now);
+			}
+			case Rating.Good:
+				if (step + 1 < steps.length) {
+					return this.scheduleStep(newCard, step + 1, steps[step + 1], now);
+				}
+				return this.graduate(newCard, now);
+			default:
+				return this.graduate(newCard, now);
+		}
+	}
+
+	private scheduleStep(newCard: Card, step: number, minutes: number, now: Date): Card {
+		newCard.learningStep = step;
+		newCard.scheduledDays = Math.floor(minutes / (60 * 24));
+		newCard.due = this.addMinutes(now, minutes);
+		return newCard;
+	}
+
+	private graduate(newCard: Card, now: Date): Card {
+		delete newCard.learningStep;
+		newCard.state = State.Review;
+		newCard.scheduledDays = this.nextInterval(newCard.stability);
+		newCard.due = this.getDueDate(now, newCard.scheduledDays);
 		return newCard;
 	}
 
@@ -203,31 +644,51 @@ export class FSRS {
 			due: new Date(card.due),
 			stability: card.stability,
 			difficulty: card.difficulty,
-			elapsedDays: card.lastReview ? calcElapsedDays(card.lastReview, now) : 0,
+			elapsedDays: card.lastReview ? this.getElapsedDays(card.lastReview, now) : 0,
 			lastElapsedDays: card.elapsedDays,
 			scheduledDays: card.scheduledDays,
 			review: new Date(now),
+			reps: card.reps,
+			lapses: card.lapses,
+			lastReview: card.lastReview ? new Date(card.lastReview) : undefined,
+			learningStep: card.learningStep,
 		};
 	}
 
-	// --- FSRS-4.5 Formulas ---
+	// --- FSRS Formulas ---
 
 	private initStability(rating: Rating): number {
 		return Math.max(this.parameters.w[rating - 1], 0.1);
 	}
 
 	private initDifficulty(rating: Rating): number {
-		const difficulty = this.parameters.w[4] - (rating - 3) * this.parameters.w[5];
+		const w = this.parameters.w;
+		const difficulty = this.usesFsrs4Formulas()
+			? w[4] - (rating - 3) * w[5]
+			: w[4] - Math.exp(w[5] * (rating - 1)) + 1;
 		return Math.min(Math.max(difficulty, 1), 10);
 	}
 
 	private nextDifficulty(difficulty: number, rating: Rating): number {
-		const nextD = difficulty - this.parameters.w[6] * (rating - 3);
+		const w = this.parameters.w;
+
+		if (this.usesFsrs4Formulas()) {
+			const nextD = difficulty - w[6] * (rating - 3);
 
-		// Correction: The mean reversion target should be the initial 'Good' difficulty (w[4]).
-		const reversionTarget = this.parameters.w[4];
+			// Correction: The mean reversion target should be the initial 'Good' difficulty (w[4]).
+			const reversionTarget = w[4];
 
-		const revertedD = this.parameters.w[7] * reversionTarget + (1 - this.parameters.w[7]) * nextD;
+			const revertedD = w[7] * reversionTarget + (1 - w[7]) * nextD;
+
+			return Math.min(Math.max(revertedD, 1), 10);
+		}
+
+		// FSRS-5 and later damp the change as difficulty approaches 10 and
+		// revert towards the initial difficulty of an "Easy" rating.
+		const deltaD = -w[6] * (rating - 3);
+		const nextD = difficulty + (deltaD * (10 - difficulty)) / 9;
+		const reversionTarget = this.initDifficulty(Rating.Easy);
+		const revertedD = w[7] * reversionTarget + (1 - w[7]) * nextD;
 
 		return Math.min(Math.max(revertedD, 1), 10);
 	}
@@ -239,12 +700,17 @@ export class FSRS {
 		rating: Rating
 	): number {
 		if (rating === Rating.Again) {
-			return (
+			const forgetStability =
 				this.parameters.w[11] *
 				Math.pow(difficulty, -this.parameters.w[12]) *
 				(Math.pow(stability + 1, this.parameters.w[13]) - 1) *
-				Math.exp((1 - retrievability) * this.parameters.w[14])
-			);
+				Math.exp((1 - retrievability) * this.parameters.w[14]);
+
+			if (!this.hasShortTermStability()) return forgetStability;
+
+			// Since FSRS-5 a lapse can never leave the card more stable than a same-day "Again".
+			const shortTermCap = stability / Math.exp(this.parameters.w[17] * this.parameters.w[18]);
+			return Math.min(forgetStability, shortTermCap);
 		} else {
 			const hardPenalty = rating === Rating.Hard ? this.parameters.w[15] : 1;
 			const easyBonus = rating === Rating.Easy ? this.parameters.w[16] : 1;
@@ -261,27 +727,102 @@ export class FSRS {
 		}
 	}
 
+	private shortTermStability(stability: number, rating: Rating): number {
+		const w = this.parameters.w;
+		let increase = Math.exp(w[17] * (rating - 3 + w[18]));
+
+		if (this.algorithmVersion() === AlgorithmVersion.FSRS6) {
+			increase *= Math.pow(stability, -w[19]);
+			// A successful same-day review never lowers stability in FSRS-6.
+			if (rating >= Rating.Good) increase = Math.max(increase, 1);
+		}
+
+		return stability * increase;
+	}
+
+	private algorithmVersion(): AlgorithmVersion {
+		return this.parameters.algorithmVersion ?? AlgorithmVersion.FSRS4;
+	}
+
+	// FSRS-4.5 only changed the forgetting curve, so both share the FSRS-4 formulas.
+	private usesFsrs4Formulas(): boolean {
+		const version = this.algorithmVersion();
+		return version === AlgorithmVersion.FSRS4 || version === AlgorithmVersion.FSRS4_5;
+	}
+
+	private hasShortTermStability(): boolean {
+		return !this.usesFsrs4Formulas();
+	}
+
 	private nextInterval(stability: number): number {
 		// This formula calculates the interval where the probability of recall
-		// is `requestRetention`. The `9` is a magic number from the FSRS-4.5 formula.
-		const interval = stability * 9 * (1 / this.parameters.requestRetention - 1);
+		// is `requestRetention`, by inverting the forgetting curve.
+		const { decay, factor } = this.forgettingCurve();
+		const interval =
+			(stability / factor) * (Math.pow(this.parameters.requestRetention, 1 / decay) - 1);
 		return Math.min(Math.max(Math.round(interval), 1), this.parameters.maximumInterval);
 	}
 
 	private retrievability(elapsedDays: number, stability: number): number {
 		// The probability of recalling a card after `elapsedDays` with a given `stability`.
-		// The `9` is a magic number from the FSRS-4.5 formula.
-		return Math.pow(1 + elapsedDays / (9 * stability), -1);
+		const { decay, factor } = this.forgettingCurve();
+		return Math.pow(1 + (factor * elapsedDays) / stability, decay);
+	}
+
+	private forgettingCurve(): { decay: number; factor: number } {
+		return getForgettingCurve(this.algorithmVersion(), this.parameters.w);
 	}
 
 	// --- Utility Functions ---
 
+	// Elapsed time fed into the forgetting curve: exact fractional days when
+	// `fractionalElapsedDays` is on, otherwise the same whole days used for scheduling.
+	private getRecallElapsedDays(lastReview: Date, now: Date): number {
+		if (this.parameters.fractionalElapsedDays) {
+			return calcElapsedDays(lastReview, now, true);
+		}
+
+		return this.getElapsedDays(lastReview, now);
+	}
+
+	private freezeCard(card: Card): Readonly<Card> {
+		return Object.freeze({
+			...card,
+			due: new Date(card.due),
+			lastReview: card.lastReview ? new Date(card.lastReview) : undefined,
+		});
+	}
+
+	private usesDayBoundaries(): boolean {
+		return this.parameters.timezone !== undefined || (this.parameters.dayRolloverHour ?? 0) !== 0;
+	}
+
+	private getDayNumber(date: Date): number {
+		return getDayNumber(date, this.parameters.timezone, this.parameters.dayRolloverHour);
+	}
+
+	// A day interval ends at the start of the learner day it lands on when day boundaries
+	// are configured, otherwise at the same time of day.
+	private getDueDate(now: Date, days: number): Date {
+		if (!this.usesDayBoundaries()) return this.addDays(now, days);
+
+		return getStartOfDay(
+			this.getDayNumber(now) + days,
+			this.parameters.timezone,
+			this.parameters.dayRolloverHour
+		);
+	}
+
 	private addDays(date: Date, days: number): Date {
 		const result = new Date(date);
 		result.setDate(result.getDate() + days);
 		return result;
 	}
 
+	private addMinutes(date: Date, minutes: number): Date {
+		return new Date(date.getTime() + Math.round(minutes * 60 * 1000));
+	}
+
 	private getRatingKey(rating: Rating): keyof SchedulingCards {
 		switch (rating) {
 			case Rating.Again:
@@ -292,16 +833,38 @@ export class FSRS {
 				return "good";
 			case Rating.Easy:
 				return "easy";
+			default:
+				throw new Error(`Invalid rating: ${rating}. Must be Again, Hard, Good or Easy`);
 		}
 	}
 
 	// --- Parameter Management ---
 
 	updateParameters(newParameters: Partial<FSRSParameters>): void {
-		this.parameters = { ...this.parameters, ...newParameters };
+		const versionChanged =
+			newParameters.algorithmVersion !== undefined &&
+			newParameters.algorithmVersion !== this.parameters.algorithmVersion;
+
+		const updated: FSRSParameters = { ...this.parameters, ...newParameters };
+		// An explicit `algorithmVersion: undefined` keeps the current version.
+		updated.algorithmVersion = newParameters.algorithmVersion ?? this.algorithmVersion();
+
+		// Switching versions without new weights falls back to that version's defaults.
+		if (versionChanged && newParameters.w === undefined) {
+			updated.w = [...getAlgorithmSpec(updated.algorithmVersion).defaultWeights];
+		}
+
+		this.validateParameters(updated);
+		this.parameters = updated;
 	}
 
 	getParameters(): FSRSParameters {
 		return { ...this.parameters };
 	}
+
+	private validateParameters(parameters: FSRSParameters): void {
+		// Hand-tuned weights outside the optimizer's bounds are allowed here; use
+		// `ParameterValidator` directly for the strict check or for clamping.
+		ParameterValidator.validate(parameters, { checkWeightBounds: false });
+	}
 }
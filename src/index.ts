@@ -1,2 +1,33 @@
 export * from "./types";
 export { FSRS } from "./fsrs";
+export { ALGORITHM_SPECS, getAlgorithmSpec } from "./algorithms";
+export { FSRSOptimizer } from "./optimizer";
+export { evaluateParameters } from "./evaluator";
+export { computeOptimalRetention, simulateRetention } from "./retention";
+export { simulateWorkload } from "./simulator";
+export { analyzeReviewLogs } from "./analytics";
+export { Deck } from "./deck";
+export { FileCardStore, MemoryCardStore } from "./cardStore";
+export { ReviewService } from "./reviewService";
+export {
+	SCHEMA_VERSION,
+	parseCard,
+	parseParameters,
+	parseReviewLog,
+	serializeCard,
+	serializeParameters,
+	serializeReviewLog,
+} from "./codec";
+export { importAnkiRevlog, mapAnkiType } from "./ankiImport";
+export {
+	CARD_CSV_COLUMNS,
+	REVIEW_LOG_CSV_COLUMNS,
+	cardsToCsv,
+	importCardsCsv,
+	importCardsCsvLines,
+	readCardsCsv,
+	readCardsCsvLines,
+	reviewLogsToCsv,
+} from "./csvIO";
+export { CardValidator } from "./utils/cardValidator";
+export { ParameterValidator } from "./utils/parameterValidator";
@@ -0,0 +1,170 @@
+import { getAlgorithmSpec } from "./algorithms";
+import { forEachPrediction, logLoss } from "./evaluator";
+import { FSRS } from "./fsrs";
+import {
+	AlgorithmVersion,
+	FSRSParameters,
+	OptimizationResult,
+	OptimizerOptions,
+	ReviewLog,
+	ReviewPrediction,
+} from "./types";
+// Step used for the finite-difference gradient.
+const GRADIENT_STEP = 1e-4;
+
+const ADAM_BETA1 = 0.9;
+const ADAM_BETA2 = 0.999;
+const ADAM_EPSILON = 1e-8;
+
+// Trains FSRS weights from review history by minimizing the log-loss of the
+// predicted retrievability against whether each review was actually recalled.
+export class FSRSOptimizer {
+	private options: Required<Omit<OptimizerOptions, "initialWeights">> & {
+		initialWeights: number[];
+	};
+	private weightBounds: Array<[number, number]>;
+
+	constructor(options?: OptimizerOptions) {
+		const algorithmVersion = options?.algorithmVersion ?? AlgorithmVersion.FSRS4;
+		const defaults = new FSRS({ algorithmVersion }).getParameters();
+
+		this.options = {
+			algorithmVersion,
+			initialWeights: defaults.w,
+			requestRetention: defaults.requestRetention,
+			maximumInterval: defaults.maximumInterval,
+			learningRate: 0.04,
+			maxIterations: 100,
+			tolerance: 1e-6,
+			minReviews: 64,
+			...options,
+		};
+
+		// Weights outside the official optimizer's bounds produce unstable schedules.
+		this.weightBounds = getAlgorithmSpec(algorithmVersion).weightBounds;
+
+		if (this.options.initialWeights.length < this.weightBounds.length) {
+			throw new Error(
+				`initialWeights must contain at least ${this.weightBounds.length} weights, got ${this.options.initialWeights.length}`
+			);
+		}
+	}
+
+	/**
+	 * Fits the weights to a set of review histories.
+	 * @param histories One array of review logs per card, oldest review first.
+	 * @returns The trained parameters along with training statistics.
+	 * @throws Error if the histories contain fewer usable reviews than `minReviews`.
+	 */
+	train(histories: ReviewLog[][]): OptimizationResult {
+		const sorted = histories
+			.filter((history) => history.length > 0)
+			.map((history) =>
+				[...history].sort((a, b) => a.review.getTime() - b.review.getTime())
+			);
+
+		let weights = this.clampWeights(this.options.initialWeights);
+		const initial = this.evaluate(weights, sorted);
+
+		if (initial.count < this.options.minReviews) {
+			throw new Error(
+				`Not enough review data to train: found ${initial.count} usable reviews, need at least ${this.options.minReviews}`
+			);
+		}
+
+		const m = new Array(weights.length).fill(0);
+		const v = new Array(weights.length).fill(0);
+
+		let loss = initial.loss;
+		let bestWeights = weights;
+		let bestLoss = loss;
+		let iterations = 0;
+
+		while (iterations < this.options.maxIterations) {
+			iterations += 1;
+
+			const gradient = this.gradient(weights, loss, sorted);
+			const next = weights.map((w, i) => {
+				m[i] = ADAM_BETA1 * m[i] + (1 - ADAM_BETA1) * gradient[i];
+				v[i] = ADAM_BETA2 * v[i] + (1 - ADAM_BETA2) * gradient[i] * gradient[i];
+				const mHat = m[i] / (1 - Math.pow(ADAM_BETA1, iterations));
+				const vHat = v[i] / (1 - Math.pow(ADAM_BETA2, iterations));
+				return w - (this.options.learningRate * mHat) / (Math.sqrt(vHat) + ADAM_EPSILON);
+			});
+
+			weights = this.clampWeights(next);
+			const nextLoss = this.evaluate(weights, sorted).loss;
+
+			if (nextLoss < bestLoss) {
+				bestLoss = nextLoss;
+				bestWeights = weights;
+			}
+
+			const improvement = loss - nextLoss;
+			loss = nextLoss;
+
+			if (Math.abs(improvement) < this.options.tolerance) break;
+		}
+
+		return {
+			parameters: {
+				requestRetention: this.options.requestRetention,
+				maximumInterval: this.options.maximumInterval,
+				w: bestWeights,
+				algorithmVersion: this.options.algorithmVersion,
+			},
+			initialLoss: initial.loss,
+			loss: bestLoss,
+			iterations,
+			reviewCount: initial.count,
+		};
+	}
+
+	/**
+	 * Computes the log-loss of a set of weights over review histories without training.
+	 * @param histories One array of review logs per card, oldest review first.
+	 * @param parameters The parameters to evaluate, defaults to the initial weights.
+	 * @returns The mean log-loss and the number of reviews it was computed over.
+	 */
+	computeLoss(
+		histories: ReviewLog[][],
+		parameters?: Partial<FSRSParameters>
+	): { loss: number; count: number } {
+		return this.evaluate(parameters?.w ?? this.options.initialWeights, histories);
+	}
+
+	// --- Training internals ---
+
+	private evaluate(weights: number[], histories: ReviewLog[][]): { loss: number; count: number } {
+		const fsrs = new FSRS({
+			w: weights,
+			algorithmVersion: this.options.algorithmVersion,
+			requestRetention: this.options.requestRetention,
+			maximumInterval: this.options.maximumInterval,
+		});
+
+		const predictions: ReviewPrediction[] = [];
+		forEachPrediction(fsrs, histories, (prediction) => predictions.push(prediction));
+
+		const count = predictions.length;
+		return { loss: count > 0 ? logLoss(predictions) : 0, count };
+	}
+
+	// Forward differences: each iteration replays every history once per weight, plus once
+	// for the new loss, so its cost grows with weights x reviews (about 20 replays for FSRS-4).
+	private gradient(weights: number[], loss: number, histories: ReviewLog[][]): number[] {
+		return weights.map((_, i) => {
+			const shifted = [...weights];
+			shifted[i] += GRADIENT_STEP;
+			return (this.evaluate(shifted, histories).loss - loss) / GRADIENT_STEP;
+		});
+	}
+
+	private clampWeights(weights: number[]): number[] {
+		return weights.map((w, i) => {
+			const bounds = this.weightBounds[i];
+			if (!bounds) return w;
+			return Math.min(Math.max(w, bounds[0]), bounds[1]);
+		});
+	}
+}
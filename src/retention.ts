@@ -0,0 +1,90 @@
+import { FSRS } from "./fsrs";
+import { simulateWorkload } from "./simulator";
+import {
+	FSRSParameters,
+	OptimalRetentionOptions,
+	OptimalRetentionResult,
+	RetentionSimulation,
+	ReviewCosts,
+} from "./types";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Finds the request retention that minimizes review time per memorized card.
+ * Each candidate retention is simulated over the same deck with the same random outcomes.
+ * @param parameters The FSRS parameters of the learner.
+ * @param costs Seconds spent per review rating and per new card.
+ * @param deckSize Number of cards to learn.
+ * @param options Simulation settings.
+ * @returns The best retention and the simulation of every candidate.
+ */
+export function computeOptimalRetention(
+	parameters: Partial<FSRSParameters>,
+	costs: ReviewCosts,
+	deckSize: number,
+	options?: OptimalRetentionOptions
+): OptimalRetentionResult {
+	if (!Number.isInteger(deckSize) || deckSize < 1) {
+		throw new Error(`Invalid deckSize: ${deckSize} must be a positive integer`);
+	}
+
+	const candidates =
+		options?.candidates ??
+		Array.from({ length: 26 }, (_, i) => Math.round((0.7 + i * 0.01) * 100) / 100);
+
+	if (candidates.length === 0 || candidates.some((r) => !(r > 0 && r < 1))) {
+		throw new Error("Invalid candidates: retentions must be between 0 and 1");
+	}
+
+	const simulations = candidates.map((requestRetention) =>
+		simulateRetention({ ...parameters, requestRetention }, costs, deckSize, options)
+	);
+
+	const best = simulations.reduce((a, b) => (b.timePerMemorized < a.timePerMemorized ? b : a));
+
+	return { requestRetention: best.requestRetention, simulations };
+}
+
+/**
+ * Simulates learning a deck at a fixed request retention.
+ * @param parameters The FSRS parameters, including the retention to simulate.
+ * @param costs Seconds spent per review rating and per new card.
+ * @param deckSize Number of cards to learn.
+ * @param options Simulation settings.
+ * @returns Time spent, cards memorized and their ratio.
+ */
+export function simulateRetention(
+	parameters: Partial<FSRSParameters>,
+	costs: ReviewCosts,
+	deckSize: number,
+	options?: OptimalRetentionOptions
+): RetentionSimulation {
+	const fsrs = new FSRS(parameters);
+	const horizonDays = options?.horizonDays ?? 365;
+	const start = new Date("2000-01-01T00:00:00.000Z");
+
+	const forecast = simulateWorkload([], fsrs, {
+		days: horizonDays,
+		newCardsPerDay: options?.learnPerDay ?? 20,
+		newCardLimit: deckSize,
+		firstRatingProbabilities: options?.firstRatingProbabilities,
+		recallRatingProbabilities: options?.recallRatingProbabilities,
+		costs,
+		startDate: start,
+		seed: options?.seed ?? "optimal-retention",
+	});
+
+	const end = new Date(start.getTime() + horizonDays * DAY_MS);
+	const memorized = forecast.cards.reduce(
+		(sum, card) => sum + (fsrs.getRetrievability(card, end) ?? 0),
+		0
+	);
+
+	return {
+		requestRetention: fsrs.getParameters().requestRetention,
+		totalTime: forecast.totalTime,
+		memorized,
+		timePerMemorized: memorized > 0 ? forecast.totalTime / memorized : Infinity,
+	};
+}
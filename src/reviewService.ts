@@ -0,0 +1,79 @@
+import { FSRS } from "./fsrs";
+import { CardStore, DeckEntry, DueCounts, Rating, SchedulingInfo, State } from "./types";
+
+// Reviews cards held in a CardStore: reads the card, schedules it with a shared FSRS
+// instance and persists the new card together with its review log.
+export class ReviewService {
+	private store: CardStore;
+	private fsrs: FSRS;
+	private pending: Map<string, Promise<unknown>> = new Map();
+
+	constructor(store: CardStore, fsrs: FSRS = new FSRS()) {
+		this.store = store;
+		this.fsrs = fsrs;
+	}
+
+	/**
+	 * Applies a rating to a stored card and saves the result. Reviews of the same card
+	 * run one after another, so concurrent calls never schedule from a stale card.
+	 * When load balancing is enabled the due counts of the other stored cards are used.
+	 * @param cardId Id of the card being reviewed.
+	 * @param rating The rating given by the user.
+	 * @param now The current date of the review.
+	 * @returns The saved card and its review log.
+	 * @throws Error if the store has no card with this id or the save fails, in which case nothing is saved.
+	 */
+	review(cardId: string, rating: Rating, now: Date = new Date()): Promise<SchedulingInfo> {
+		const previous = this.pending.get(cardId) ?? Promise.resolve();
+		const result = previous.catch(() => undefined).then(() => this.reviewNow(cardId, rating, now));
+
+		this.pending.set(cardId, result);
+		const cleanup = () => {
+			if (this.pending.get(cardId) === result) this.pending.delete(cardId);
+		};
+		result.then(cleanup, cleanup);
+
+		return result;
+	}
+
+	/**
+	 * Returns stored studied cards that are due, most overdue first, using the same
+	 * day boundaries as `FSRS.isDue`.
+	 * @param now The current date.
+	 * @param limit Maximum number of cards to return.
+	 */
+	async getDue(now: Date = new Date(), limit?: number): Promise<DeckEntry[]> {
+		// Cards due later today can already be due when day boundaries are configured.
+		const until = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+		const due = (await this.store.getDueCards(until)).filter(({ card }) =>
+			this.fsrs.isDue(card, now)
+		);
+
+		return limit === undefined ? due : due.slice(0, limit);
+	}
+
+	private async reviewNow(cardId: string, rating: Rating, now: Date): Promise<SchedulingInfo> {
+		const card = await this.store.getCard(cardId);
+		if (!card) throw new Error(`Card not found: "${cardId}"`);
+
+		const dueCounts = this.fsrs.getParameters().enableLoadBalance
+			? await this.getDueCounts(cardId)
+			: undefined;
+		const result = this.fsrs.next(card, now, rating, { dueCounts });
+
+		await this.store.saveReview(cardId, result.card, result.reviewLog);
+		return result;
+	}
+
+	private async getDueCounts(excludeId: string): Promise<DueCounts> {
+		const counts: DueCounts = {};
+
+		(await this.store.getCards()).forEach(({ id, card }) => {
+			if (id === excludeId || card.state === State.New) return;
+			const key = this.fsrs.getDayKey(card.due);
+			counts[key] = (counts[key] ?? 0) + 1;
+		});
+
+		return counts;
+	}
+}
@@ -0,0 +1,163 @@
+import { FSRS } from "./fsrs";
+import {
+	Card,
+	Rating,
+	RatingDistribution,
+	ReviewCosts,
+	State,
+	WorkloadDay,
+	WorkloadForecast,
+	WorkloadOptions,
+} from "./types";
+import { createSeededRandom } from "./utils/fuzz";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Rating distributions observed across FSRS users, used when none are given.
+const DEFAULT_FIRST_RATING_PROBABILITIES: [number, number, number, number] = [
+	0.24, 0.094, 0.495, 0.171,
+];
+const DEFAULT_RECALL_RATING_PROBABILITIES: [number, number, number] = [0.224, 0.632, 0.144];
+
+// Upper bound on same-day repetitions of one card, so learning steps cannot loop forever.
+const MAX_REVIEWS_PER_DAY = 20;
+
+/**
+ * Forecasts the daily review workload of a collection.
+ * Every review goes through `fsrs.next`, and recall is drawn from `fsrs.getRetrievability`,
+ * so the forecast follows the same formulas as real scheduling.
+ * @param cards The current cards. New cards are introduced before any freshly created ones.
+ * @param fsrs The scheduler to simulate with.
+ * @param options Forecast settings.
+ * @returns Day-by-day due counts, expected retention and time spent.
+ */
+export function simulateWorkload(
+	cards: Card[],
+	fsrs: FSRS,
+	options?: WorkloadOptions
+): WorkloadForecast {
+	const dayCount = options?.days ?? 90;
+	const newCardsPerDay = options?.newCardsPerDay ?? 0;
+	const newCardLimit = options?.newCardLimit ?? Infinity;
+	const start = options?.startDate ?? new Date();
+	const random = createSeededRandom(options?.seed ?? "workload");
+
+	if (!Number.isInteger(dayCount) || dayCount < 1) {
+		throw new Error(`Invalid days: ${dayCount} must be a positive integer`);
+	}
+
+	if (newCardsPerDay < 0) {
+		throw new Error(`Invalid newCardsPerDay: ${newCardsPerDay} cannot be negative`);
+	}
+
+	const studied = cards.filter((card) => card.state !== State.New).map((card) => ({ ...card }));
+	const waiting = cards.filter((card) => card.state === State.New);
+	const days: WorkloadDay[] = [];
+	let introduced = 0;
+	let totalReviews = 0;
+	let totalTime = 0;
+
+	for (let day = 0; day < dayCount; day++) {
+		const dayStart = new Date(start.getTime() + day * DAY_MS);
+		const dayEnd = new Date(dayStart.getTime() + DAY_MS);
+
+		const dueCount = studied.filter((card) => card.due < dayEnd).length;
+		const expectedRetention = averageRetrievability(fsrs, studied, dayStart);
+
+		const newCount = Math.max(0, Math.min(newCardsPerDay, newCardLimit - introduced));
+		for (let i = 0; i < newCount; i++) {
+			const waitingCard = waiting.shift();
+			studied.push(
+				waitingCard ? { ...waitingCard, due: dayStart } : fsrs.createEmptyCard(dayStart)
+			);
+		}
+		introduced += newCount;
+
+		let reviewCount = 0;
+		let timeSpent = 0;
+
+		studied.forEach((_, index) => {
+			for (let repeat = 0; repeat < MAX_REVIEWS_PER_DAY; repeat++) {
+				const card = studied[index];
+				if (card.due >= dayEnd) break;
+
+				const now = card.due > dayStart ? card.due : dayStart;
+				const rating = simulateRating(fsrs, card, now, random, options);
+
+				timeSpent += reviewCost(options?.costs, card, rating);
+				reviewCount += 1;
+				studied[index] = fsrs.next(card, now, rating).card;
+			}
+		});
+
+		totalReviews += reviewCount;
+		totalTime += timeSpent;
+		days.push({ date: dayStart, dueCount, newCount, reviewCount, expectedRetention, timeSpent });
+	}
+
+	return { days, cards: [...studied, ...waiting], totalReviews, totalTime };
+}
+
+/**
+ * Draws a rating for a review: first reviews follow the first-rating distribution,
+ * later reviews are recalled with probability equal to the card's retrievability.
+ */
+function simulateRating(
+	fsrs: FSRS,
+	card: Card,
+	now: Date,
+	random: () => number,
+	distribution?: RatingDistribution
+): Rating {
+	if (card.state === State.New) {
+		return pickWeighted(
+			random(),
+			distribution?.firstRatingProbabilities ?? DEFAULT_FIRST_RATING_PROBABILITIES,
+			[Rating.Again, Rating.Hard, Rating.Good, Rating.Easy]
+		);
+	}
+
+	const retrievability = fsrs.getRetrievability(card, now) ?? 1;
+	if (random() >= retrievability) return Rating.Again;
+
+	return pickWeighted(
+		random(),
+		distribution?.recallRatingProbabilities ?? DEFAULT_RECALL_RATING_PROBABILITIES,
+		[Rating.Hard, Rating.Good, Rating.Easy]
+	);
+}
+
+function averageRetrievability(fsrs: FSRS, cards: Card[], now: Date): number {
+	if (cards.length === 0) return 0;
+
+	const total = cards.reduce((sum, card) => sum + (fsrs.getRetrievability(card, now) ?? 0), 0);
+	return total / cards.length;
+}
+
+function pickWeighted(value: number, weights: number[], ratings: Rating[]): Rating {
+	const total = weights.reduce((sum, w) => sum + w, 0);
+	let threshold = value * total;
+
+	for (let i = 0; i < ratings.length; i++) {
+		threshold -= weights[i];
+		if (threshold < 0) return ratings[i];
+	}
+
+	return ratings[ratings.length - 1];
+}
+
+function reviewCost(costs: ReviewCosts | undefined, card: Card, rating: Rating): number {
+	if (!costs) return 0;
+	if (card.state === State.New) return costs.learn;
+
+	switch (rating) {
+		case Rating.Again:
+			return costs.again;
+		case Rating.Hard:
+			return costs.hard;
+		case Rating.Easy:
+			return costs.easy;
+		default:
+			return costs.good;
+	}
+}
@@ -1,4 +1,5 @@
 export enum Rating {
+	Manual = 0, // Not a review: the card was manually reset with `forget`
 	Again = 1, // "I forgot this"
 	Hard = 2, // "Difficult to remember"
 	Good = 3, // "Normal recall"
@@ -12,10 +13,38 @@ export enum State {
 	Relearning = 3,
 }
 
+export enum AlgorithmVersion {
+	FSRS4 = "4", // 17 weights, the original curve R = 1 / (1 + t / 9S) of this library
+	FSRS4_5 = "4.5", // 17 weights, FSRS-4 formulas with the power forgetting curve
+	FSRS5 = "5", // 19 weights, adds same-day (short-term) stability
+	FSRS6 = "6", // 21 weights, adds a trainable forgetting-curve decay
+}
+
 export interface FSRSParameters {
 	requestRetention: number;
 	maximumInterval: number;
-	w: number[]; // 19 parameters for the FSRS algorithm
+	w: number[]; // 17, 19 or 21 parameters depending on the algorithm version
+	algorithmVersion?: AlgorithmVersion; // Defaults to FSRS-4
+	learningSteps?: string[]; // Same-session steps for new cards, e.g. ["1m", "10m"]
+	relearningSteps?: string[]; // Same-session steps after a lapse, e.g. ["10m"]
+	enableFuzz?: boolean; // Spread day intervals within the FSRS fuzz ranges
+	enableLoadBalance?: boolean; // Pick the least-loaded day within the fuzz range
+	easyDays?: number[]; // Workload weight per weekday, Sunday first (0 = rest day, 0.5 = light day)
+	timezone?: string; // IANA time zone of the learner, e.g. "Europe/Berlin" (defaults to local)
+	dayRolloverHour?: number; // Hour at which a new learner day starts, e.g. 4 like Anki
+	fractionalElapsedDays?: boolean; // Use exact fractional days in the forgetting curve
+}
+
+export interface ParameterValidationOptions {
+	clamp?: boolean; // Clamp out-of-range values into range instead of throwing
+	checkWeightBounds?: boolean; // Check each weight against the optimizer's bounds (default true)
+}
+
+// Number of cards already due per day, keyed by `FSRS.getDayKey`.
+export type DueCounts = Record<string, number>;
+
+export interface ScheduleOptions {
+	dueCounts?: DueCounts; // Existing due counts, used when load balancing is enabled
 }
 
 export interface Card {
@@ -28,6 +57,7 @@ export interface Card {
 	lapses: number; // Times you failed/forgot
 	state: State; // New/Learning/Review/Relearning
 	lastReview?: Date; // When you last saw it
+	learningStep?: number; // Current (re)learning step while in Learning/Relearning
 }
 
 // ReivewLog is for history for a specific card
@@ -41,6 +71,11 @@ export interface ReviewLog {
 	rating: Rating;
 	lastElapsedDays: number;
 	review: Date;
+	reps?: number; // Card reps before this review
+	lapses?: number; // Card lapses before this review
+	lastReview?: Date; // Card lastReview before this review
+	learningStep?: number; // Card learningStep before this review
+	resetCounts?: boolean; // Rating.Manual only: the reset also cleared reps and lapses
 }
 
 export interface SchedulingInfo {
@@ -55,6 +90,44 @@ export interface SchedulingCards {
 	easy: SchedulingInfo;
 }
 
+export interface ForgetOptions {
+	resetCounts?: boolean; // Also clear reps and lapses, defaults to false
+}
+
+// A single past review; ReviewLog objects can be used directly.
+export interface ReviewHistoryEntry {
+	rating: Rating;
+	review: Date;
+	resetCounts?: boolean; // Rating.Manual only: replay the reset with reps and lapses cleared
+}
+
+export interface ReplayResult {
+	card: Card; // The card after the last review
+	reviewLogs: ReviewLog[]; // Regenerated logs, one per history entry
+}
+
+export interface BeforeScheduleContext {
+	card: Readonly<Card>; // Frozen copy of the card being scheduled
+	now: Date;
+	options?: ScheduleOptions;
+}
+
+export interface AfterCalculateContext extends BeforeScheduleContext {
+	rating: Rating;
+	scheduled: Card; // The card after this rating, may be modified or replaced
+}
+
+export interface AfterScheduleContext extends BeforeScheduleContext {
+	result: SchedulingCards; // The final outcomes for all ratings
+}
+
+// Callbacks run by `FSRS.schedule` (and so by `next`, `replay` and everything built on them).
+export interface SchedulingHooks {
+	beforeSchedule: (context: BeforeScheduleContext) => void; // Throw to reject the review
+	afterCalculate: (context: AfterCalculateContext) => Card | void; // Return a card to replace it
+	afterSchedule: (context: AfterScheduleContext) => void;
+}
+
 // TODO
 export interface FSRSWeights {
 	initialStabilityAgain: number;
@@ -78,6 +151,291 @@ export interface RawCardData {
 	lapses: number | string;
 	state: string;
 	lastReview?: string | Date | null;
+	learningStep?: number | string | null; // Step within the (re)learning steps, blank when not on a step
 	createdAt?: string | Date;
 	updatedAt?: string | Date;
 }
+
+// How to read rows whose columns, state codes or timestamps differ from RawCardData.
+export interface RawCardMapping {
+	fields?: Partial<Record<keyof RawCardData, string | string[]>>; // Source column(s) per field, e.g. { lastReview: "last_review" }
+	stateCodes?: Record<string, State>; // Stored state values, e.g. { 0: State.New, 2: State.Review }
+	timestampUnit?: "milliseconds" | "seconds"; // Unit of numeric dates, which are rejected if unset
+}
+
+export interface CardFix {
+	field: keyof Card;
+	from: unknown; // Value in the raw data
+	to: unknown; // Value in the repaired card
+	reason: string;
+}
+
+export interface CardRepairResult {
+	card: Card;
+	fixes: CardFix[]; // Empty when the data was already valid
+}
+
+export interface OptimizerOptions {
+	algorithmVersion?: AlgorithmVersion; // Which formulas to train, defaults to FSRS-4
+	initialWeights?: number[]; // Starting point, defaults to the FSRS default weights
+	requestRetention?: number; // Copied onto the returned parameters
+	maximumInterval?: number; // Copied onto the returned parameters
+	learningRate?: number; // Step size for the Adam optimizer
+	maxIterations?: number; // Upper bound on optimizer iterations
+	tolerance?: number; // Stop once the loss improves by less than this
+	minReviews?: number; // Refuse to train on fewer usable reviews than this
+}
+
+export interface OptimizationResult {
+	parameters: FSRSParameters; // Trained parameters, ready for `new FSRS(...)`
+	initialLoss: number; // Log-loss of the initial weights
+	loss: number; // Log-loss of the trained weights
+	iterations: number; // Iterations actually run
+	reviewCount: number; // Reviews that contributed to the loss
+}
+
+// Seconds spent on a review, per rating, plus the cost of learning a new card.
+export interface ReviewCosts {
+	again: number;
+	hard: number;
+	good: number;
+	easy: number;
+	learn: number;
+}
+
+// Probabilities of each rating in simulations. Each tuple is normalized before use.
+export interface RatingDistribution {
+	firstRatingProbabilities?: [number, number, number, number]; // Again/Hard/Good/Easy on first review
+	recallRatingProbabilities?: [number, number, number]; // Hard/Good/Easy when a review is recalled
+}
+
+export interface OptimalRetentionOptions extends RatingDistribution {
+	learnPerDay?: number; // New cards introduced per day
+	horizonDays?: number; // Number of days to simulate
+	candidates?: number[]; // Retentions to try, defaults to 0.70-0.95 in 0.01 steps
+	seed?: string; // Seed for the simulated recall outcomes
+}
+
+export interface RetentionSimulation {
+	requestRetention: number;
+	totalTime: number; // Seconds spent over the horizon
+	memorized: number; // Expected number of cards remembered at the end of the horizon
+	timePerMemorized: number; // Seconds spent per memorized card
+}
+
+export interface OptimalRetentionResult {
+	requestRetention: number; // The retention with the lowest time per memorized card
+	simulations: RetentionSimulation[]; // One entry per candidate retention
+}
+
+export interface WorkloadOptions extends RatingDistribution {
+	days?: number; // Number of days to forecast, defaults to 90
+	newCardsPerDay?: number; // New cards introduced per day, defaults to 0
+	newCardLimit?: number; // Total new cards to introduce, defaults to unlimited
+	costs?: ReviewCosts; // Seconds per review, time spent is 0 when omitted
+	startDate?: Date; // First forecast day, defaults to now
+	seed?: string; // Seed for the simulated recall outcomes
+}
+
+export interface WorkloadDay {
+	date: Date; // Start of the forecast day
+	dueCount: number; // Previously studied cards due this day
+	newCount: number; // New cards introduced this day
+	reviewCount: number; // Reviews done this day, including same-day repeats
+	expectedRetention: number; // Mean retrievability of studied cards at the start of the day
+	timeSpent: number; // Seconds spent this day
+}
+
+export interface WorkloadForecast {
+	days: WorkloadDay[];
+	cards: Card[]; // Cards at the end of the forecast
+	totalReviews: number;
+	totalTime: number; // Seconds spent over the whole forecast
+}
+
+export interface DeckEntry {
+	id: string;
+	card: Card;
+}
+
+export type SerializedState = "NEW" | "LEARNING" | "REVIEW" | "RELEARNING";
+export type SerializedRating = "MANUAL" | "AGAIN" | "HARD" | "GOOD" | "EASY";
+
+// JSON form of a Card: dates as ISO strings, enums as names.
+export interface SerializedCard {
+	schemaVersion: number;
+	due: string;
+	stability: number;
+	difficulty: number;
+	elapsedDays: number;
+	scheduledDays: number;
+	reps: number;
+	lapses: number;
+	state: SerializedState;
+	lastReview: string | null;
+	learningStep?: number;
+}
+
+// JSON form of a ReviewLog: dates as ISO strings, enums as names.
+export interface SerializedReviewLog {
+	schemaVersion: number;
+	rating: SerializedRating;
+	state: SerializedState;
+	due: string;
+	stability: number;
+	difficulty: number;
+	elapsedDays: number;
+	lastElapsedDays: number;
+	scheduledDays: number;
+	review: string;
+	reps?: number;
+	lapses?: number;
+	lastReview?: string | null;
+	learningStep?: number;
+	resetCounts?: boolean;
+}
+
+export type SerializedParameters = Partial<FSRSParameters> & { schemaVersion: number };
+
+export interface SkippedRow {
+	row: number; // 1-based line number in the imported file
+	reason: string;
+}
+
+export interface AnkiImportedCard {
+	cardId: string; // Anki card id
+	card: Card; // Memory state reconstructed from the reviews
+	reviewLogs: ReviewLog[]; // One per imported review, oldest first
+}
+
+export interface AnkiImportResult {
+	cards: AnkiImportedCard[];
+	skipped: SkippedRow[];
+}
+
+export interface CsvCardRow {
+	row: number; // 1-based line number in the CSV file
+	data: RawCardData;
+}
+
+export interface CsvImportError {
+	index: number; // Position among the data rows
+	row: number; // 1-based line number in the CSV file
+	error: string;
+	data: RawCardData;
+}
+
+export interface CsvImportResult {
+	valid: Card[];
+	errors: CsvImportError[];
+}
+
+export interface StoredReviewLog {
+	cardId: string;
+	reviewLog: ReviewLog;
+}
+
+export interface ReviewLogQuery {
+	cardId?: string; // Only logs of this card
+	since?: Date; // Only reviews at or after this date
+	until?: Date; // Only reviews at or before this date
+}
+
+// Persistence for cards and their review history, see MemoryCardStore and FileCardStore.
+export interface CardStore {
+	getCard(id: string): Promise<Card | undefined>;
+	getCards(): Promise<DeckEntry[]>;
+	putCard(id: string, card: Card): Promise<void>;
+	appendReviewLog(cardId: string, reviewLog: ReviewLog): Promise<void>;
+	saveReview(cardId: string, card: Card, reviewLog: ReviewLog): Promise<void>; // Card and log together, or neither
+	getReviewLogs(query?: ReviewLogQuery): Promise<StoredReviewLog[]>; // Oldest review first
+	getDueCards(until: Date, limit?: number): Promise<DeckEntry[]>; // Studied cards due by `until`, most overdue first
+}
+
+export type CardStoreFormat = "json" | "ndjson";
+
+export interface FileCardStoreOptions {
+	format?: CardStoreFormat; // Inferred from the file extension (.ndjson, .jsonl) when omitted
+}
+
+export interface ReviewAnalyticsOptions {
+	intervalBuckets?: number[]; // Ascending bucket edges in elapsed days, defaults to [1, 3, 7, 14, 30, 90, 180, 365]
+	calibrationBins?: number; // Number of equal-width retrievability bins, defaults to 10
+	driftPeriodDays?: number; // Length of each drift period, defaults to 30
+}
+
+export interface PassRate {
+	count: number; // Reviews counted
+	passed: number; // Reviews not rated Again
+	rate?: number; // passed / count, undefined without reviews
+}
+
+export interface IntervalRetention extends PassRate {
+	minDays: number; // Elapsed days since the previous review, inclusive
+	maxDays?: number; // Exclusive upper bound, undefined for the last bucket
+}
+
+export interface RatingShare {
+	rating: Rating;
+	count: number;
+	share?: number; // Fraction of all reviews, undefined without reviews
+}
+
+export interface CalibrationBin {
+	minPredicted: number; // Lower edge of predicted retrievability, inclusive
+	maxPredicted: number; // Upper edge, exclusive except for the last bin
+	count: number;
+	averagePredicted?: number; // Mean predicted retrievability of the reviews in this bin
+	actualRecall?: number; // Fraction of those reviews that were recalled
+}
+
+export interface DriftPeriod {
+	start: Date; // Start of the period (UTC-aligned)
+	count: number; // Reviews of studied cards in this period
+	averageDifficulty: number; // Mean difficulty before those reviews
+	averageStability: number; // Mean stability before those reviews
+}
+
+export interface MemoryDrift {
+	periods: DriftPeriod[]; // Oldest first, periods without reviews are left out
+	difficultyChange?: number; // Last period average minus first, undefined with fewer than 2 periods
+	stabilityChange?: number;
+}
+
+export interface ReviewAnalytics {
+	reviewCount: number; // Reviews analyzed, manual resets excluded
+	requestRetention: number; // Target retention of the scheduler
+	trueRetention: PassRate; // Pass rate of reviews of cards in the Review state
+	retentionGap?: number; // trueRetention.rate minus requestRetention
+	retentionByInterval: IntervalRetention[]; // Review-state reviews by elapsed days
+	retentionByState: Record<State, PassRate>; // Pass rate by card state before the review
+	lapseCount: number; // Review-state reviews rated Again
+	lapseRate?: number; // Lapses per Review-state review, 1 - trueRetention.rate
+	ratingDistribution: RatingShare[]; // Again, Hard, Good and Easy
+	drift: MemoryDrift;
+	calibration: CalibrationBin[]; // Predicted retrievability against actual recall
+	calibrationError?: number; // Mean absolute gap between predicted and actual, weighted by count
+}
+
+// One review the scheduler had to predict: recall probability before it and the outcome.
+export interface ReviewPrediction {
+	retrievability: number; // Predicted probability of recall
+	recalled: boolean; // Whether the review was rated anything but Again
+	elapsedDays: number; // Days since the previous review
+	reviewNumber: number; // Position of the review in the card's history, the first is 1
+	lapses: number; // Card lapses before the review
+}
+
+export interface ModelCandidate {
+	name: string; // Label in the results, e.g. "default" or "optimized"
+	parameters: Partial<FSRSParameters>;
+}
+
+export interface ModelEvaluation {
+	name: string;
+	parameters: FSRSParameters; // The parameters with defaults filled in
+	reviewCount: number; // Reviews that were predicted
+	logLoss: number; // Mean log-loss, lower is better
+	rmseBins: number; // RMSE between predicted and actual recall over benchmark bins, lower is better
+	auc?: number; // Area under the ROC curve, higher is better; undefined if every review had the same outcome
+}
@@ -1,4 +1,4 @@
-import { Card, RawCardData, State } from "../types";
+import { Card, CardFix, CardRepairResult, RawCardData, RawCardMapping, State } from "../types";
 
 // State mapping from string to enum
 const STATE_MAP: Record<string, State> = {
@@ -8,18 +8,45 @@ const STATE_MAP: Record<string, State> = {
 	RELEARNING: State.Relearning,
 };
 
+// Every RawCardData field, in declaration order
+const RAW_CARD_FIELDS: Array<keyof RawCardData> = [
+	"id",
+	"userId",
+	"cardId",
+	"due",
+	"stability",
+	"difficulty",
+	"elapsedDays",
+	"scheduledDays",
+	"reps",
+	"lapses",
+	"state",
+	"lastReview",
+	"learningStep",
+	"createdAt",
+	"updatedAt",
+];
+
+const DATE_FIELDS: Array<keyof RawCardData> = ["due", "lastReview", "createdAt", "updatedAt"];
+
 export class CardValidator {
 	/**
 	 * Validates and converts raw card data to a Card object
-	 * @param rawData - The raw card data from database/API
+	 * @param input - The raw card data from database/API
+	 * @param mapping - How to read rows with other column names, state codes or timestamps
 	 * @returns A validated Card object
 	 * @throws Error if validation fails
 	 */
-	static validateAndConvert(rawData: RawCardData): Card {
-		if (!rawData || typeof rawData !== "object") {
+	static validateAndConvert(
+		input: RawCardData | Record<string, unknown>,
+		mapping?: RawCardMapping
+	): Card {
+		if (!input || typeof input !== "object") {
 			throw new Error("Invalid card data: must be an object");
 		}
 
+		const rawData = mapping ? this.applyMapping(input, mapping) : (input as RawCardData);
+
 		// Validate and convert state
 		const state = this.validateState(rawData.state);
 
@@ -30,8 +57,18 @@ export class CardValidator {
 			: undefined;
 
 		// Validate and convert numbers
-		const stability = this.validateNumber(rawData.stability, "stability", 0.1, Infinity);
-		const difficulty = this.validateNumber(rawData.difficulty, "difficulty", 1, 10);
+		// New cards have no memory state yet, `createEmptyCard` stores both as 0
+		const isEmptyNew = state === State.New && Number(rawData.stability) === 0;
+		const stability = this.validateNumber(
+			rawData.stability,
+			"stability",
+			isEmptyNew ? 0 : 0.1,
+			Infinity
+		);
+		const difficulty =
+			isEmptyNew && Number(rawData.difficulty) === 0
+				? 0
+				: this.validateNumber(rawData.difficulty, "difficulty", 1, 10);
 		const elapsedDays = this.validateNumber(rawData.elapsedDays, "elapsedDays", 0, Infinity);
 		const scheduledDays =
 			rawData.scheduledDays !== undefined
@@ -39,17 +76,21 @@ export class CardValidator {
 				: 0; // Default to 0 if not provided
 		const reps = this.validateInteger(rawData.reps, "reps", 0, Infinity);
 		const lapses = this.validateInteger(rawData.lapses, "lapses", 0, Infinity);
+		// Blank when the card is not on a (re)learning step, e.g. an empty CSV cell
+		const learningStep =
+			rawData.learningStep === undefined ||
+			rawData.learningStep === null ||
+			rawData.learningStep === ""
+				? undefined
+				: this.validateInteger(rawData.learningStep, "learningStep", 0, Infinity);
 
 		// Additional validation rules
-		if (state === State.New && reps > 0) {
-			throw new Error("New cards should have 0 reps");
-		}
-
 		if (state === State.New && lastReview) {
 			throw new Error("New cards should not have a lastReview date");
 		}
 
-		if (reps > 0 && !lastReview) {
+		// A card reset with `forget` is New again but keeps its reps and lapses
+		if (state !== State.New && reps > 0 && !lastReview) {
 			throw new Error("Cards with reps > 0 must have a lastReview date");
 		}
 
@@ -57,6 +98,10 @@ export class CardValidator {
 			throw new Error("Lapses cannot be greater than reps");
 		}
 
+		if (learningStep !== undefined && state !== State.Learning && state !== State.Relearning) {
+			throw new Error("Only Learning and Relearning cards can have a learningStep");
+		}
+
 		// Construct the validated Card object
 		const card: Card = {
 			due,
@@ -69,10 +114,194 @@ export class CardValidator {
 			state,
 			lastReview,
 		};
+		if (learningStep !== undefined) card.learningStep = learningStep;
 
 		return card;
 	}
 
+	/**
+	 * Renames, decodes and converts a source row into RawCardData
+	 * @param row - A row from a database or API
+	 * @param mapping - Source columns, state codes and timestamp unit
+	 * @returns The row in RawCardData form, still unvalidated
+	 */
+	static applyMapping(
+		row: RawCardData | Record<string, unknown>,
+		mapping: RawCardMapping
+	): RawCardData {
+		const source = row as Record<string, unknown>;
+		const result: Record<string, unknown> = {};
+
+		RAW_CARD_FIELDS.forEach((field) => {
+			const aliases = mapping.fields?.[field] ?? [];
+			const column = [...(Array.isArray(aliases) ? aliases : [aliases]), field].find(
+				(name) => source[name] !== undefined
+			);
+			if (column !== undefined) result[field] = source[column];
+		});
+
+		if (mapping.stateCodes && result.state !== undefined && result.state !== null) {
+			const state = mapping.stateCodes[String(result.state)];
+			if (state === undefined) {
+				const codes = Object.keys(mapping.stateCodes).join(", ");
+				throw new Error(`Invalid state: "${result.state}". Must be one of: ${codes}`);
+			}
+			result.state = State[state].toUpperCase();
+		}
+
+		if (mapping.timestampUnit) {
+			const scale = mapping.timestampUnit === "seconds" ? 1000 : 1;
+			DATE_FIELDS.forEach((field) => {
+				const value = result[field];
+				if (typeof value === "number" || (typeof value === "string" && /^\d+$/.test(value))) {
+					result[field] = new Date(Number(value) * scale);
+				}
+			});
+		}
+
+		return result as unknown as RawCardData;
+	}
+
+	/**
+	 * Repairs what can safely be repaired, then validates and converts like `validateAndConvert`
+	 * - New cards with a lastReview are reset to empty New cards; reset cards keep reps and lapses
+	 * - Negative or fractional reps and lapses are rounded into range, and reps raised to lapses
+	 * - A missing lastReview is inferred as `due - scheduledDays`
+	 * - Difficulty is clamped to 1-10, stability raised to 0.1, negative day counts set to 0
+	 * @param input - The raw card data from database/API
+	 * @param mapping - How to read rows with other column names, state codes or timestamps
+	 * @returns The card and every fix applied to it
+	 * @throws Error if the data cannot be repaired (unknown state, invalid dates or numbers)
+	 */
+	static repair(
+		input: RawCardData | Record<string, unknown>,
+		mapping?: RawCardMapping
+	): CardRepairResult {
+		if (!input || typeof input !== "object") {
+			throw new Error("Invalid card data: must be an object");
+		}
+
+		const rawData = mapping ? this.applyMapping(input, mapping) : (input as RawCardData);
+		const fixes: CardFix[] = [];
+
+		const state = this.validateState(rawData.state);
+		const due = this.validateDate(rawData.due, "due");
+		let lastReview = rawData.lastReview
+			? this.validateDate(rawData.lastReview, "lastReview")
+			: undefined;
+
+		const values = {
+			stability: this.validateNumber(rawData.stability, "stability"),
+			difficulty: this.validateNumber(rawData.difficulty, "difficulty"),
+			elapsedDays: this.validateNumber(rawData.elapsedDays, "elapsedDays"),
+			scheduledDays:
+				rawData.scheduledDays !== undefined
+					? this.validateNumber(rawData.scheduledDays, "scheduledDays")
+					: 0,
+			reps: this.validateNumber(rawData.reps, "reps"),
+			lapses: this.validateNumber(rawData.lapses, "lapses"),
+		};
+
+		const fix = (field: keyof typeof values, to: number, reason: string) => {
+			if (values[field] === to) return;
+			fixes.push({ field, from: values[field], to, reason });
+			values[field] = to;
+		};
+
+		if (state === State.New && lastReview) {
+			const reason = "New cards cannot have review history, reset to an empty New card";
+			(Object.keys(values) as Array<keyof typeof values>).forEach((field) => fix(field, 0, reason));
+			if (lastReview) {
+				fixes.push({ field: "lastReview", from: lastReview, to: undefined, reason });
+				lastReview = undefined;
+			}
+		}
+
+		(["reps", "lapses"] as const).forEach((field) => {
+			fix(field, Math.max(0, Math.round(values[field])), `${field} must be a non-negative integer`);
+		});
+
+		fix("reps", Math.max(values.reps, values.lapses), "Lapses cannot be greater than reps");
+
+		if (state !== State.New && values.reps > 0 && !lastReview) {
+			lastReview = new Date(due.getTime() - values.scheduledDays * 24 * 60 * 60 * 1000);
+			fixes.push({
+				field: "lastReview",
+				from: rawData.lastReview,
+				to: lastReview,
+				reason:
+					"Cards with reps > 0 must have a lastReview date, inferred from due - scheduledDays",
+			});
+		}
+
+		// An empty New card keeps its 0 memory state.
+		const isEmptyNew = state === State.New && values.stability === 0;
+		if (!(isEmptyNew && values.difficulty === 0)) {
+			fix("difficulty", Math.min(Math.max(values.difficulty, 1), 10), "Difficulty must be 1-10");
+		}
+		if (!isEmptyNew) {
+			fix("stability", Math.max(values.stability, 0.1), "Stability must be at least 0.1");
+		}
+
+		fix("elapsedDays", Math.max(values.elapsedDays, 0), "elapsedDays cannot be negative");
+		fix("scheduledDays", Math.max(values.scheduledDays, 0), "scheduledDays cannot be negative");
+
+		let learningStep = rawData.learningStep;
+		if (
+			learningStep !== undefined &&
+			learningStep !== null &&
+			learningStep !== "" &&
+			state !== State.Learning &&
+			state !== State.Relearning
+		) {
+			fixes.push({
+				field: "learningStep",
+				from: learningStep,
+				to: undefined,
+				reason: "Only Learning and Relearning cards can have a learningStep",
+			});
+			learningStep = undefined;
+		}
+
+		const card = this.validateAndConvert({
+			...values,
+			due,
+			state: State[state].toUpperCase(),
+			lastReview,
+			learningStep,
+		});
+
+		return { card, fixes };
+	}
+
+	/**
+	 * Batch repair and convert multiple cards
+	 */
+	static repairBatch<T extends RawCardData | Record<string, unknown>>(
+		rawDataArray: T[],
+		mapping?: RawCardMapping
+	): {
+		repaired: Array<CardRepairResult & { index: number }>;
+		errors: Array<{ index: number; error: string; data: T }>;
+	} {
+		const repaired: Array<CardRepairResult & { index: number }> = [];
+		const errors: Array<{ index: number; error: string; data: T }> = [];
+
+		rawDataArray.forEach((rawData, index) => {
+			try {
+				repaired.push({ index, ...this.repair(rawData, mapping) });
+			} catch (error) {
+				errors.push({
+					index,
+					error: error instanceof Error ? error.message : "Unknown error",
+					data: rawData,
+				});
+			}
+		});
+
+		return { repaired, errors };
+	}
+
 	/**
 	 * Validates and converts a state string to State enum
 	 */
@@ -168,16 +397,19 @@ export class CardValidator {
 	/**
 	 * Batch validate and convert multiple cards
 	 */
-	static validateAndConvertBatch(rawDataArray: RawCardData[]): {
+	static validateAndConvertBatch<T extends RawCardData | Record<string, unknown>>(
+		rawDataArray: T[],
+		mapping?: RawCardMapping
+	): {
 		valid: Card[];
-		errors: Array<{ index: number; error: string; data: RawCardData }>;
+		errors: Array<{ index: number; error: string; data: T }>;
 	} {
 		const valid: Card[] = [];
-		const errors: Array<{ index: number; error: string; data: RawCardData }> = [];
+		const errors: Array<{ index: number; error: string; data: T }> = [];
 
 		rawDataArray.forEach((rawData, index) => {
 			try {
-				const card = this.validateAndConvert(rawData);
+				const card = this.validateAndConvert(rawData, mapping);
 				valid.push(card);
 			} catch (error) {
 				errors.push({
@@ -0,0 +1,115 @@
+export interface DelimitedRow {
+	line: number; // 1-based line the row starts on
+	fields: string[];
+}
+
+/**
+ * Splits CSV or TSV text into rows of fields. Fields may be quoted with double quotes,
+ * in which case they can contain delimiters, newlines and doubled quotes ("").
+ * Blank lines are skipped.
+ * @param text The file contents.
+ * @param delimiter The field separator, detected from the first line (tab or comma) if omitted.
+ * @returns The rows, each with the line number it starts on.
+ */
+export function parseDelimited(text: string, delimiter?: string): DelimitedRow[] {
+	const parser = new DelimitedLineParser(delimiter);
+	const rows: DelimitedRow[] = [];
+
+	text.split(/\r\n|\r|\n/).forEach((line) => {
+		const row = parser.push(line);
+		if (row) rows.push(row);
+	});
+
+	parser.end();
+	return rows;
+}
+
+/**
+ * Parses CSV or TSV that arrives one line at a time, e.g. from `readline`. Follows the
+ * same rules as `parseDelimited`; a quoted field may continue over several lines.
+ */
+export class DelimitedLineParser {
+	private delimiter?: string;
+	private fields: string[] = [];
+	private field = "";
+	private quoted = false;
+	private line = 0;
+	private rowLine = 1;
+
+	/**
+	 * @param delimiter The field separator, detected from the first line (tab or comma) if omitted.
+	 */
+	constructor(delimiter?: string) {
+		this.delimiter = delimiter;
+	}
+
+	/**
+	 * Adds the next line of input.
+	 * @param text The line, without its line break.
+	 * @returns The row that ends on this line, or undefined for a blank line or an open quote.
+	 */
+	push(text: string): DelimitedRow | undefined {
+		if (this.delimiter === undefined) {
+			this.delimiter = text.includes("\t") ? "\t" : ",";
+		}
+		this.line++;
+
+		if (this.quoted) {
+			this.field += "\n";
+		} else {
+			this.rowLine = this.line;
+		}
+
+		for (let i = 0; i < text.length; i++) {
+			const char = text[i];
+
+			if (this.quoted) {
+				if (char === '"' && text[i + 1] === '"') {
+					this.field += '"';
+					i++;
+				} else if (char === '"') {
+					this.quoted = false;
+				} else {
+					this.field += char;
+				}
+			} else if (char === '"' && this.field === "") {
+				this.quoted = true;
+			} else if (char === this.delimiter) {
+				this.fields.push(this.field);
+				this.field = "";
+			} else {
+				this.field += char;
+			}
+		}
+
+		if (this.quoted) return undefined;
+
+		const fields = [...this.fields, this.field];
+		this.fields = [];
+		this.field = "";
+		return fields.length > 1 || fields[0].trim() !== ""
+			? { line: this.rowLine, fields }
+			: undefined;
+	}
+
+	/**
+	 * Checks that the input did not end inside a quoted field.
+	 * @throws Error if a quoted field is still open.
+	 */
+	end(): void {
+		if (this.quoted) {
+			throw new Error(`Unterminated quoted field starting on line ${this.rowLine}`);
+		}
+	}
+}
+
+/**
+ * Formats one field for CSV output, quoting it when it contains the delimiter,
+ * a quote or a line break.
+ */
+export function formatDelimitedField(value: string, delimiter: string = ","): string {
+	if (value.includes(delimiter) || /["\r\n]/.test(value)) {
+		return `"${value.replace(/"/g, '""')}"`;
+	}
+	return value;
+}
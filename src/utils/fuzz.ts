@@ -0,0 +1,59 @@
+// Fuzz ranges used by FSRS/Anki: the further an interval grows past `start`,
+// the wider (by `factor` per day) the window of acceptable due days becomes.
+const FUZZ_RANGES = [
+	{ start: 2.5, end: 7, factor: 0.15 },
+	{ start: 7, end: 20, factor: 0.1 },
+	{ start: 20, end: Infinity, factor: 0.05 },
+];
+
+// Intervals shorter than this are never fuzzed.
+export const MIN_FUZZ_INTERVAL = 2.5;
+
+/**
+ * Returns the window of intervals (in days) that are acceptable substitutes for `interval`.
+ * @param interval The computed interval in days.
+ * @param elapsedDays Days elapsed at the review, fuzzing never lands on or before it.
+ * @param maximumInterval The configured maximum interval.
+ */
+export function getFuzzRange(
+	interval: number,
+	elapsedDays: number,
+	maximumInterval: number
+): { minInterval: number; maxInterval: number } {
+	let delta = 1;
+	FUZZ_RANGES.forEach((range) => {
+		delta += range.factor * Math.max(Math.min(interval, range.end) - range.start, 0);
+	});
+
+	const clamped = Math.min(interval, maximumInterval);
+	let minInterval = Math.max(2, Math.round(clamped - delta));
+	const maxInterval = Math.min(Math.round(clamped + delta), maximumInterval);
+
+	if (clamped > elapsedDays) {
+		minInterval = Math.max(minInterval, elapsedDays + 1);
+	}
+
+	return { minInterval: Math.min(minInterval, maxInterval), maxInterval };
+}
+
+/**
+ * Creates a deterministic pseudo-random number generator from a string seed.
+ * @param seed Any string; equal seeds produce equal sequences.
+ * @returns A function returning numbers in [0, 1).
+ */
+export function createSeededRandom(seed: string): () => number {
+	// FNV-1a hash of the seed, fed into mulberry32.
+	let state = 0x811c9dc5;
+	for (let i = 0; i < seed.length; i++) {
+		state ^= seed.charCodeAt(i);
+		state = Math.imul(state, 0x01000193);
+	}
+
+	return () => {
+		state = (state + 0x6d2b79f5) | 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
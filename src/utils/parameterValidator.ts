@@ -0,0 +1,169 @@
+import { getAlgorithmSpec } from "../algorithms";
+import { AlgorithmVersion, FSRSParameters, ParameterValidationOptions } from "../types";
+import { isValidTimeZone, parseStepMinutes } from "./timeFuncs";
+
+// Accepted ranges for the scalar parameters; weights use the bounds of their algorithm version.
+const REQUEST_RETENTION_RANGE: [number, number] = [0.01, 0.99];
+const MAXIMUM_INTERVAL_RANGE: [number, number] = [1, 36500];
+// Weights the scheduler divides by or uses as an exponent: the initial stabilities and the
+// FSRS-6 forgetting curve decay. A zero here yields NaN intervals even without bound checks.
+const POSITIVE_WEIGHT_INDICES = [0, 1, 2, 3, 20];
+
+export class ParameterValidator {
+	/**
+	 * Validates FSRS parameters. Only the fields that are present are checked.
+	 * @param parameters - The parameters to check
+	 * @param options - Whether to clamp out-of-range values and whether to check weight bounds
+	 * @returns A copy of the parameters, with out-of-range values clamped when `clamp` is set
+	 * @throws Error if validation fails
+	 */
+	static validate<T extends Partial<FSRSParameters>>(
+		parameters: T,
+		options?: ParameterValidationOptions
+	): T {
+		if (!parameters || typeof parameters !== "object") {
+			throw new Error("Invalid parameters: must be an object");
+		}
+
+		const clamp = options?.clamp ?? false;
+		const validated: T = { ...parameters };
+
+		if (parameters.w !== undefined) {
+			validated.w = this.validateWeights(
+				parameters.w,
+				parameters.algorithmVersion ?? AlgorithmVersion.FSRS4,
+				clamp,
+				options?.checkWeightBounds ?? true
+			);
+		} else if (parameters.algorithmVersion !== undefined) {
+			getAlgorithmSpec(parameters.algorithmVersion);
+		}
+
+		if (parameters.requestRetention !== undefined) {
+			validated.requestRetention = this.validateRange(
+				parameters.requestRetention,
+				"requestRetention",
+				REQUEST_RETENTION_RANGE,
+				clamp
+			);
+		}
+
+		if (parameters.maximumInterval !== undefined) {
+			const maximumInterval = this.validateRange(
+				parameters.maximumInterval,
+				"maximumInterval",
+				MAXIMUM_INTERVAL_RANGE,
+				clamp
+			);
+
+			if (!clamp && !Number.isInteger(maximumInterval)) {
+				throw new Error(`Invalid maximumInterval: ${maximumInterval} must be an integer`);
+			}
+			validated.maximumInterval = Math.round(maximumInterval);
+		}
+
+		// Parsing throws a descriptive error for malformed steps.
+		[...(parameters.learningSteps ?? []), ...(parameters.relearningSteps ?? [])].forEach(
+			parseStepMinutes
+		);
+
+		if (parameters.easyDays !== undefined) {
+			validated.easyDays = this.validateEasyDays(parameters.easyDays, clamp);
+		}
+
+		if (parameters.timezone !== undefined && !isValidTimeZone(parameters.timezone)) {
+			throw new Error(
+				`Invalid timezone: "${parameters.timezone}". Use an IANA name such as "Europe/Berlin"`
+			);
+		}
+
+		const rolloverHour = parameters.dayRolloverHour ?? 0;
+		if (!Number.isInteger(rolloverHour) || rolloverHour < 0 || rolloverHour > 23) {
+			throw new Error(`Invalid dayRolloverHour: ${rolloverHour} must be an integer from 0 to 23`);
+		}
+
+		return validated;
+	}
+
+	/**
+	 * Checks the weight count for the algorithm version and each weight against
+	 * the bounds used by the official optimizer
+	 */
+	private static validateWeights(
+		w: unknown,
+		algorithmVersion: AlgorithmVersion,
+		clamp: boolean,
+		checkBounds: boolean
+	): number[] {
+		const spec = getAlgorithmSpec(algorithmVersion);
+
+		if (!Array.isArray(w) || !spec.weightCounts.includes(w.length)) {
+			const received = Array.isArray(w) ? w.length : typeof w;
+			throw new Error(
+				`FSRS-${spec.version} requires ${spec.weightCounts.join(" or ")} weights, got ${received}`
+			);
+		}
+
+		return w.map((weight, i) => {
+			if (typeof weight !== "number" || !Number.isFinite(weight)) {
+				throw new Error(`Invalid w[${i}]: ${weight} is not a finite number`);
+			}
+
+			// Weights the version does not use (w[17] and w[18] under FSRS-4 and 4.5) have no bounds.
+			const bounds = spec.weightBounds[i];
+			if (!checkBounds || !bounds) {
+				if (weight < 0) {
+					throw new Error(`Invalid w[${i}]: ${weight} cannot be negative`);
+				}
+				if (weight === 0 && POSITIVE_WEIGHT_INDICES.includes(i)) {
+					throw new Error(`Invalid w[${i}]: ${weight} must be greater than 0`);
+				}
+				return weight;
+			}
+
+			return this.validateRange(weight, `w[${i}]`, bounds, clamp);
+		});
+	}
+
+	/**
+	 * Checks that there is one weight between 0 and 1 per weekday and at least one study day
+	 */
+	private static validateEasyDays(easyDays: unknown, clamp: boolean): number[] {
+		if (!Array.isArray(easyDays) || easyDays.length !== 7) {
+			throw new Error("Invalid easyDays: expected 7 weights, Sunday first");
+		}
+
+		const weights = easyDays.map((weight, i) =>
+			this.validateRange(weight, `easyDays[${i}]`, [0, 1], clamp)
+		);
+
+		if (weights.every((weight) => weight === 0)) {
+			throw new Error("Invalid easyDays: at least one weekday must have a weight above 0");
+		}
+
+		return weights;
+	}
+
+	/**
+	 * Checks that a value is a number within [min, max], clamping it instead when asked
+	 */
+	private static validateRange(
+		value: unknown,
+		fieldName: string,
+		[min, max]: [number, number],
+		clamp: boolean
+	): number {
+		if (typeof value !== "number" || Number.isNaN(value)) {
+			throw new Error(`Invalid ${fieldName}: ${value} is not a number`);
+		}
+
+		if (value < min || value > max) {
+			if (!clamp) {
+				throw new Error(`Invalid ${fieldName}: ${value} must be between ${min} and ${max}`);
+			}
+			return Math.min(Math.max(value, min), max);
+		}
+
+		return value;
+	}
+}
@@ -1,10 +1,12 @@
-export function calcElapsedDays(lastReviewDate: Date | null | undefined, now: Date): number {
+export function calcElapsedDays(
+	lastReviewDate: Date | null | undefined,
+	now: Date,
+	fractional: boolean = false
+): number {
 	if (lastReviewDate) {
 		if (isValidDate(new Date(lastReviewDate))) {
-			return Math.max(
-				0,
-				Math.floor((now.getTime() - lastReviewDate.getTime()) / (1000 * 60 * 60 * 24))
-			);
+			const days = (now.getTime() - lastReviewDate.getTime()) / (1000 * 60 * 60 * 24);
+			return Math.max(0, fractional ? days : Math.floor(days));
 		} else {
 			console.warn("Invalid date provided, make sure your dates are valid dates!");
 		}
@@ -13,7 +15,149 @@ export function calcElapsedDays(lastReviewDate: Date | null | undefined, now: Da
 	return 0;
 }
 
+const HOUR_MS = 1000 * 60 * 60;
+const DAY_MS = HOUR_MS * 24;
+
+/**
+ * Formats the calendar day of a date as "YYYY-MM-DD".
+ * @param date The date to format.
+ * @param timeZone IANA time zone of the learner, defaults to the local zone.
+ * @param rolloverHour Hour at which a new day starts, defaults to midnight.
+ */
+export function formatDayKey(date: Date, timeZone?: string, rolloverHour: number = 0): string {
+	if (!timeZone && rolloverHour === 0) {
+		const month = String(date.getMonth() + 1).padStart(2, "0");
+		const day = String(date.getDate()).padStart(2, "0");
+		return `${date.getFullYear()}-${month}-${day}`;
+	}
+
+	return formatDayNumber(getDayNumber(date, timeZone, rolloverHour));
+}
+
+/**
+ * Formats a learner day as "YYYY-MM-DD", the key `formatDayKey` gives the dates on it.
+ * @param dayNumber The day, counted in days since 1970-01-01.
+ */
+export function formatDayNumber(dayNumber: number): string {
+	return new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Returns the learner's day a date falls on, counted in days since 1970-01-01.
+ * Times before `rolloverHour` still belong to the previous day.
+ * @param date The date to convert.
+ * @param timeZone IANA time zone of the learner, defaults to the local zone.
+ * @param rolloverHour Hour at which a new day starts, defaults to midnight.
+ */
+export function getDayNumber(date: Date, timeZone?: string, rolloverHour: number = 0): number {
+	const shifted = new Date(date.getTime() - rolloverHour * HOUR_MS);
+
+	if (!timeZone) {
+		const wallClock = Date.UTC(shifted.getFullYear(), shifted.getMonth(), shifted.getDate());
+		return Math.round(wallClock / DAY_MS);
+	}
+
+	return Math.floor((shifted.getTime() + getTimeZoneOffset(shifted, timeZone)) / DAY_MS);
+}
+
+/**
+ * Returns the moment a learner's day begins: `rolloverHour` o'clock in `timeZone`.
+ * @param dayNumber The day, counted in days since 1970-01-01.
+ * @param timeZone IANA time zone of the learner, defaults to the local zone.
+ * @param rolloverHour Hour at which a new day starts, defaults to midnight.
+ */
+export function getStartOfDay(
+	dayNumber: number,
+	timeZone?: string,
+	rolloverHour: number = 0
+): Date {
+	const wallClock = dayNumber * DAY_MS + rolloverHour * HOUR_MS;
+
+	if (!timeZone) {
+		const day = new Date(dayNumber * DAY_MS);
+		return new Date(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), rolloverHour);
+	}
+
+	// Correct twice so that offsets changing around the target (DST) are picked up.
+	let time = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+	time = wallClock - getTimeZoneOffset(new Date(time), timeZone);
+	return new Date(time);
+}
+
+/**
+ * Checks that a time zone name is understood by `Intl`.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		getFormatter(timeZone);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+	let formatter = formatters.get(timeZone);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat("en-US", {
+			timeZone,
+			hourCycle: "h23",
+			year: "numeric",
+			month: "numeric",
+			day: "numeric",
+			hour: "numeric",
+			minute: "numeric",
+			second: "numeric",
+		});
+		formatters.set(timeZone, formatter);
+	}
+	return formatter;
+}
+
+// Milliseconds to add to a UTC time to get the wall-clock time in `timeZone`.
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+	const parts: Record<string, number> = {};
+	getFormatter(timeZone)
+		.formatToParts(date)
+		.forEach(({ type, value }) => {
+			parts[type] = Number(value);
+		});
+
+	const wallClock = Date.UTC(
+		parts.year,
+		parts.month - 1,
+		parts.day,
+		parts.hour,
+		parts.minute,
+		parts.second
+	);
+	return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
 export function isValidDate(date: any): boolean {
 	// An invalid date object returns NaN for getTime()
 	return date instanceof Date && !isNaN(date.getTime());
 }
+
+const STEP_UNIT_MINUTES: Record<string, number> = {
+	s: 1 / 60,
+	m: 1,
+	h: 60,
+	d: 60 * 24,
+};
+
+/**
+ * Parses a (re)learning step such as "30s", "10m", "1h" or "1d" into minutes.
+ * @throws Error if the step is not a positive number followed by a unit
+ */
+export function parseStepMinutes(step: string): number {
+	const match = typeof step === "string" ? /^\s*(\d+(?:\.\d+)?)\s*([smhd])\s*$/i.exec(step) : null;
+
+	if (!match || parseFloat(match[1]) <= 0) {
+		throw new Error(`Invalid step: "${step}". Use a positive number followed by s, m, h or d`);
+	}
+
+	return parseFloat(match[1]) * STEP_UNIT_MINUTES[match[2].toLowerCase()];
+}